@@ -1,4 +1,131 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useCallback, useRef, useEffect, useState } from 'react';
+import { Aperture, Camera, Ellipsis, FlipHorizontal2, FlipVertical2, FolderOpen, Keyboard, Library, Redo2, Ruler, Trash2, Undo2, Video } from 'lucide-react';
+import AdjustmentsPanel from './components/AdjustmentsPanel';
+import CameraSettings from './components/CameraSettings';
+import GridControls from './components/GridControls';
+import GridOverlay from './components/GridOverlay';
+import LayerPanel from './components/LayerPanel';
+import LineArtPanel from './components/LineArtPanel';
+import MarkerPanel from './components/MarkerPanel';
+import MeasurePanel from './components/MeasurePanel';
+import ProjectPanel from './components/ProjectPanel';
+import ReferenceLibrary from './components/ReferenceLibrary';
+import ScaleBar from './components/ScaleBar';
+import ShortcutHelp from './components/ShortcutHelp';
+import MoreMenu from './components/MoreMenu';
+import SnapshotGallery from './components/SnapshotGallery';
+import TimelapsePanel from './components/TimelapsePanel';
+import TintFilter from './components/TintFilter';
+import TransformPanel from './components/TransformPanel';
+import UnlockButton from './components/UnlockButton';
+import { useEditHistory } from './hooks/useEditHistory';
+import { useElementSize } from './hooks/useElementSize';
+import { useImageUrls } from './hooks/useImageUrls';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useMarkerDetection } from './hooks/useMarkerDetection';
+import { useMotionTracking } from './hooks/useMotionTracking';
+import { usePwa } from './hooks/usePwa';
+import { pickTimelapseMimeType, useTimelapse } from './hooks/useTimelapse';
+import { useTransformGestures } from './hooks/useTransformGestures';
+import { useWakeLock } from './hooks/useWakeLock';
+import {
+  clearProcessedImage,
+  deleteImage,
+  deleteRecording,
+  deleteSnapshot,
+  getImage,
+  ImageStoreError,
+  listImages,
+  listRecordings,
+  listSnapshots,
+  migrateLegacyImage,
+  renameImage,
+  saveImage,
+  saveProcessedImage,
+  saveRecording,
+  saveSnapshot,
+  updateImageSettings,
+  type Recording,
+  type Snapshot,
+  type SnapshotVariant,
+  type StoredImage,
+} from './lib/imageStore';
+import {
+  clampLayerOpacity,
+  createLayer,
+  DEFAULT_LAYER_OPACITY,
+  fitLayerBox,
+  moveLayer,
+  type OverlayLayer,
+} from './lib/layers';
+import {
+  applyCameraLocks,
+  coverPointToFrame,
+  DEFAULT_CAMERA_PREFERENCES,
+  focusAtPoint,
+  getCameraFeatures,
+  getTrackZoom,
+  listCameras,
+  NO_CAMERA_FEATURES,
+  NO_CAMERA_LOCKS,
+  openCamera,
+  setHardwareZoom as applyHardwareZoom,
+  setTorch,
+  type CameraFeatures,
+  type CameraLocks,
+  type CameraPreferences,
+} from './lib/camera';
+import { DEFAULT_ADJUSTMENTS, toCssFilter, type ImageAdjustments } from './lib/adjustments';
+import { captureSnapshot, type CaptureOptions } from './lib/capture';
+import { applyEditSnapshot, takeEditSnapshot, type EditSnapshot } from './lib/history';
+import { DEFAULT_GRID_SETTINGS, type GridSettings } from './lib/grid';
+import { processLineArt, type LineArtOptions } from './lib/lineArt';
+import { fitTransformToPaper, framePointToStage, MARKER_FIT_TOLERANCE, type PaperSize } from './lib/markers';
+import {
+  fetchImageFromUrl,
+  fileFromDrop,
+  IMAGE_URL_PARAM,
+  imageFromClipboard,
+  isFileDrag,
+  parseImageUrl,
+  SHARED_PARAM,
+  takeSharedImage,
+  validateImageFile,
+} from './lib/imageInput';
+import {
+  coverScale,
+  createCalibration,
+  DEFAULT_MEASURE_SETTINGS,
+  stagePixelsPerCm,
+  type MeasureSettings,
+} from './lib/measure';
+import { createDefaultQuad, toCssMatrix3d, type Quad } from './lib/perspective';
+import { frameMotionToStage, moveTransformBy, TRACKED_SAVE_INTERVAL_MS, type Similarity } from './lib/tracking';
+import {
+  createProjectFile,
+  parseProjectFile,
+  PROJECT_EXTENSION,
+  PROJECT_MIME_TYPE,
+  ProjectFileError,
+  projectFileName,
+} from './lib/project';
+import { LEGACY_IMAGE_PLACEHOLDER, loadSettings, saveSettings } from './lib/settings';
+import type { ShortcutAction } from './lib/shortcuts';
+import {
+  clampScale,
+  createIdentityTransform,
+  fitScale,
+  isMirrored,
+  MAX_SCALE,
+  MIN_SCALE,
+  sanitizeTransform,
+  screenDeltaToLocal,
+  toCssTransform,
+  type Transform,
+} from './lib/transform';
+
+// Shown for the rest of the session when the saved layers couldn't be restored
+const UNSAVED_LAYERS_NOTICE = "Layer changes in this session won't be saved";
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -7,202 +134,368 @@ const App: React.FC = () => {
   const [error, setError] = useState<string>('');
   const [cameraSupported, setCameraSupported] = useState<boolean>(true);
   const [showPrivacy, setShowPrivacy] = useState<boolean>(true);
-  const [overlayImage, setOverlayImage] = useState<string>('');
-  const [overlayOpacity, setOverlayOpacity] = useState<number>(0.5);
+  const [storageError, setStorageError] = useState<string>('');
+  const [showLibrary, setShowLibrary] = useState<boolean>(false);
+  // 'replace' swaps the selected layer's image, 'add' puts the image on a new layer
+  const [libraryMode, setLibraryMode] = useState<'replace' | 'add'>('replace');
+  const [libraryImages, setLibraryImages] = useState<StoredImage[]>([]);
+
+  // Overlay layer stack (bottom to top)
+  const [layers, setLayers] = useState<OverlayLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string>('');
+  const [layersRestored, setLayersRestored] = useState<boolean>(false);
+  // The saved stack couldn't be read; it is left alone rather than overwritten
+  const [skipLayerSave, setSkipLayerSave] = useState<boolean>(false);
+  const [showLayerPanel, setShowLayerPanel] = useState<boolean>(false);
+  const [showLineArt, setShowLineArt] = useState<boolean>(false);
+  const [showAdjustments, setShowAdjustments] = useState<boolean>(false);
+  const [lineArtOptions, setLineArtOptions] = useState<LineArtOptions | undefined>(undefined);
+  const [isProcessingLineArt, setIsProcessingLineArt] = useState<boolean>(false);
+  const { images: loadedImages, reloadImage } = useImageUrls(layers.map(layer => layer.imageId));
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId);
   
   const [showMoveMenu, setShowMoveMenu] = useState<boolean>(false);
   const [hideMode, setHideMode] = useState<boolean>(false);
   const [showOpacitySlider, setShowOpacitySlider] = useState<boolean>(false);
   const [isPictureMoveActive, setIsPictureMoveActive] = useState(false);
   const [isCameraMoveActive, setIsCameraMoveActive] = useState(false);
+  const [isCornerPinActive, setIsCornerPinActive] = useState(false);
+  const [rotationSnap, setRotationSnap] = useState<boolean>(true);
+  const [showCameraSettings, setShowCameraSettings] = useState<boolean>(false);
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(DEFAULT_CAMERA_PREFERENCES);
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string>('');
+  const [cameraFeatures, setCameraFeatures] = useState<CameraFeatures>(NO_CAMERA_FEATURES);
+  const [cameraLocks, setCameraLocks] = useState<CameraLocks>(NO_CAMERA_LOCKS);
+  const [tapToFocus, setTapToFocus] = useState<boolean>(false);
+  // Where the last tap-to-focus landed, in screen coordinates, for the focus ring
+  const [focusRing, setFocusRing] = useState<{ x: number; y: number } | null>(null);
+  const [torchOn, setTorchOn] = useState<boolean>(false);
+  const [hardwareZoom, setHardwareZoom] = useState<number | undefined>(undefined);
+  const [showGallery, setShowGallery] = useState<boolean>(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [isCapturing, setIsCapturing] = useState<boolean>(false);
+  const [showTimelapse, setShowTimelapse] = useState<boolean>(false);
+  const [timelapseInterval, setTimelapseInterval] = useState<number>(5);
+  const [timelapseWithOverlay, setTimelapseWithOverlay] = useState<boolean>(true);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isSavingTimelapse, setIsSavingTimelapse] = useState<boolean>(false);
+  const [showProject, setShowProject] = useState<boolean>(false);
+  const [measureSettings, setMeasureSettings] = useState<MeasureSettings>(DEFAULT_MEASURE_SETTINGS);
+  const [showMeasure, setShowMeasure] = useState<boolean>(false);
+  const [measureError, setMeasureError] = useState<string>('');
+  // Points tapped while calibrating, relative to the camera area; null when not calibrating
+  const [calibrationPoints, setCalibrationPoints] = useState<{ x: number; y: number }[] | null>(null);
+  const [calibrationLength, setCalibrationLength] = useState<string>('');
+  // Camera frame size, for converting between frame and stage pixels
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  // Move the layers with the paper when the tracker sees it shift
+  const [pinToPaper, setPinToPaper] = useState<boolean>(false);
+  const [showMarkers, setShowMarkers] = useState<boolean>(false);
+  const [markerPaper, setMarkerPaper] = useState<PaperSize>('a4');
+  // Fit the selected layer to the paper between the printed corner markers
+  const [markerFit, setMarkerFit] = useState<boolean>(false);
+  // Paper corners (stage pixels) the selected layer was last fitted to, so
+  // small jitter in the detection doesn't re-render the layer
+  const lastMarkerFit = useRef<{ layerId: string; quad: Quad } | null>(null);
+  // When the layer stack was last written to settings
+  const lastLayerSave = useRef(0);
+  const [projectExport, setProjectExport] = useState<File | null>(null);
+  const [projectBusy, setProjectBusy] = useState<'export' | 'import' | null>(null);
+  const [projectError, setProjectError] = useState<string>('');
+  const [showGridControls, setShowGridControls] = useState<boolean>(false);
+  const [installPromptDismissed, setInstallPromptDismissed] = useState<boolean>(false);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const [showMoreMenu, setShowMoreMenu] = useState<boolean>(false);
+  const [showTransformPanel, setShowTransformPanel] = useState<boolean>(false);
+  // What the precise position panel shows and edits
+  const [transformTarget, setTransformTarget] = useState<'picture' | 'camera'>('picture');
+  const dragDepth = useRef(0);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(DEFAULT_GRID_SETTINGS);
 
   // Simple position state - using viewport coordinates
-  const [imagePosition, setImagePosition] = useState({ x: 0, y: 0, scale: 1 });
-  const [cameraTransform, setCameraTransform] = useState({ x: 0, y: 0, scale: 1 });
+  const [cameraTransform, setCameraTransform] = useState<Transform>(createIdentityTransform);
   const dragStartPos = useRef({ x: 0, y: 0 });
-  const isDragging = useRef(false);
-  const lastPinchDistance = useRef(0);
-  const isPinching = useRef(false);
+  const draggingCorner = useRef<number | null>(null);
 
-  // Helper function to calculate distance between two touch points
-  const getDistance = (touch1: React.Touch, touch2: React.Touch) => {
-    const dx = touch1.clientX - touch2.clientX;
-    const dy = touch1.clientY - touch2.clientY;
-    return Math.sqrt(dx * dx + dy * dy);
-  };
+  // Size of the camera/overlay stage, used to fit each layer box to its image
+  const [stageSizeRef, stageSize] = useElementSize<HTMLDivElement>();
+  // The stage and layer box elements, which move gestures restyle directly
+  const stageElementRef = useRef<HTMLDivElement | null>(null);
+  const layerElements = useRef<Record<string, HTMLDivElement | null>>({});
+  const stageRef = useCallback((element: HTMLDivElement | null) => {
+    stageElementRef.current = element;
+    stageSizeRef(element);
+  }, [stageSizeRef]);
 
-  const handlePointerDown = (e: React.PointerEvent) => {
-    if (!isPictureMoveActive && !isCameraMoveActive) return;
-    isDragging.current = true;
-    e.currentTarget.setPointerCapture(e.pointerId);
-    dragStartPos.current = { x: e.clientX, y: e.clientY };
+  // What a snapshot or time-lapse frame should show right now
+  const buildCaptureOptions = (withOverlay: boolean): CaptureOptions | null => {
+    if (!videoRef.current) return null;
+    return {
+      video: videoRef.current,
+      stageWidth: stageSize.width,
+      stageHeight: stageSize.height,
+      cameraTransform,
+      layers: withOverlay
+        ? layers.flatMap(layer => {
+            const image = loadedImages[layer.imageId];
+            if (!layer.visible || !image) return [];
+            return [{
+              url: layer.showProcessed && image.processedUrl ? image.processedUrl : image.url,
+              opacity: layer.opacity,
+              adjustments: layer.adjustments,
+              transform: layer.transform,
+              width: image.width,
+              height: image.height,
+            }];
+          })
+        : [],
+    };
   };
 
-  const handlePointerMove = (e: React.PointerEvent) => {
-    if ((!isPictureMoveActive && !isCameraMoveActive) || !isDragging.current) return;
-    const dx = e.clientX - dragStartPos.current.x;
-    const dy = e.clientY - dragStartPos.current.y;
-    
-    if (isPictureMoveActive) {
-      setImagePosition(prev => ({
-        ...prev,
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-    } else if (isCameraMoveActive) {
-      setCameraTransform(prev => ({
-        ...prev,
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-    }
-    
-    dragStartPos.current = { x: e.clientX, y: e.clientY };
+  const timelapse = useTimelapse(buildCaptureOptions);
+
+  // Hide mode is the tracing lock; keep the screen on for it and for time-lapses
+  const wakeLock = useWakeLock(hideMode || timelapse.isRecording);
+
+  // Offline support, plus the install and update prompts
+  const pwa = usePwa();
+
+  // Undo/redo for alignment: each gesture or one-off change is one step
+  const history = useEditHistory(takeEditSnapshot(layers, cameraTransform), (snapshot: EditSnapshot) => {
+    setLayers(prev => applyEditSnapshot(prev, snapshot));
+    setCameraTransform(snapshot.cameraTransform);
+    saveSettings({ cameraTransform: snapshot.cameraTransform });
+  }, !hideMode);
+
+  // Apply a transform change to the selected layer (locked layers don't move)
+  const updateSelectedTransform = (update: (prev: Transform) => Transform) => {
+    setLayers(prev => prev.map(layer =>
+      layer.id === selectedLayerId && !layer.locked
+        ? { ...layer, transform: update(layer.transform) }
+        : layer
+    ));
   };
 
-  const handlePointerUp = (e: React.PointerEvent) => {
-    if (!isPictureMoveActive && !isCameraMoveActive) return;
-    isDragging.current = false;
-    e.currentTarget.releasePointerCapture(e.pointerId);
-    
-    // Save to localStorage
-    if (isPictureMoveActive) {
-      localStorage.setItem('tracecam_image_transform', JSON.stringify(imagePosition));
-    } else if (isCameraMoveActive) {
-      localStorage.setItem('tracecam_camera_transform', JSON.stringify(cameraTransform));
-    }
+  // Apply a property change to one layer
+  const updateLayer = (id: string, changes: Partial<OverlayLayer>) => {
+    setLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
   };
 
-  // Touch event handlers for pinch-to-zoom
-  const handleTouchStart = (e: React.TouchEvent) => {
-    if (!isPictureMoveActive && !isCameraMoveActive) return;
-    
-    if (e.touches.length === 2) {
-      // Start pinch gesture
-      isPinching.current = true;
-      isDragging.current = false; // Disable dragging during pinch
-      lastPinchDistance.current = getDistance(e.touches[0], e.touches[1]);
-    } else if (e.touches.length === 1) {
-      // Single touch for dragging
-      isPinching.current = false;
-      isDragging.current = true;
-      dragStartPos.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
-    }
-  };
-
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!isPictureMoveActive && !isCameraMoveActive) return;
-    e.preventDefault(); // Prevent page scrolling
-    
-    if (e.touches.length === 2 && isPinching.current) {
-      // Handle pinch gesture
-      const currentDistance = getDistance(e.touches[0], e.touches[1]);
-      const scale = currentDistance / lastPinchDistance.current;
-      
-      if (isPictureMoveActive) {
-        setImagePosition(prev => ({
-          ...prev,
-          scale: Math.max(0.5, Math.min(3, prev.scale * scale)) // Limit scale between 0.5x and 3x
-        }));
-      } else if (isCameraMoveActive) {
-        setCameraTransform(prev => ({
-          ...prev,
-          scale: Math.max(0.5, Math.min(3, prev.scale * scale)) // Limit scale between 0.5x and 3x
-        }));
+  // Move gestures: drag pans, pinch zooms and rotates the selected layer or the camera
+  useTransformGestures(stageElementRef, {
+    enabled: !hideMode && (isCameraMoveActive || (isPictureMoveActive && !!selectedLayer && !selectedLayer.locked)),
+    rotationSnap,
+    // The camera, or the id of the layer being moved
+    getTarget: () => {
+      if (isCameraMoveActive) {
+        return stageElementRef.current && { key: null, transform: cameraTransform, element: stageElementRef.current, parents: [] };
       }
-      
-      lastPinchDistance.current = currentDistance;
-    } else if (e.touches.length === 1 && isDragging.current) {
-      // Handle single touch drag
-      const dx = e.touches[0].clientX - dragStartPos.current.x;
-      const dy = e.touches[0].clientY - dragStartPos.current.y;
-      
-      if (isPictureMoveActive) {
-        setImagePosition(prev => ({
-          ...prev,
-          x: prev.x + dx,
-          y: prev.y + dy
-        }));
-      } else if (isCameraMoveActive) {
-        setCameraTransform(prev => ({
-          ...prev,
-          x: prev.x + dx,
-          y: prev.y + dy
-        }));
+      const element = selectedLayer && layerElements.current[selectedLayer.id];
+      return selectedLayer && element
+        ? { key: selectedLayer.id, transform: selectedLayer.transform, element, parents: [cameraTransform] }
+        : null;
+    },
+    // A whole gesture, pinches included, is one undo step
+    onStart: history.beginEdit,
+    onCommit: (transform, layerId: string | null) => {
+      if (layerId === null) {
+        setCameraTransform(transform);
+        saveSettings({ cameraTransform: transform });
+      } else {
+        // Layers are saved whenever they change
+        updateLayer(layerId, { transform });
       }
-      
-      dragStartPos.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+      history.endEdit();
+    },
+  });
+
+  // Pinned layers follow the paper: move every layer by the motion the tracker saw
+  const handleTrackedMove = (delta: Similarity, frameWidth: number) => {
+    if (!stageSize.width || !stageSize.height || !videoSize.width || !videoSize.height) return;
+    const motion = frameMotionToStage(delta, frameWidth, stageSize.width, stageSize.height, videoSize.width, videoSize.height);
+    setLayers(prev => prev.map(layer => {
+      const image = loadedImages[layer.imageId];
+      if (!image) return layer;
+      const box = fitLayerBox(stageSize.width, stageSize.height, image.width, image.height);
+      return { ...layer, transform: moveTransformBy(layer.transform, motion, box.left + box.width / 2, box.top + box.height / 2) };
+    }));
+  };
+
+  // Tracking pauses while the user is aligning by hand and starts over from the new alignment
+  const isAligning = isPictureMoveActive || isCameraMoveActive || isCornerPinActive || !!calibrationPoints;
+  const tracking = useMotionTracking(videoRef, pinToPaper && !!stream && !isAligning, handleTrackedMove);
+
+  // Fit the selected layer to the paper the markers mark out, whenever it moves
+  const handleMarkerPaper = (frameQuad: Quad, frameWidth: number) => {
+    const image = selectedLayer && loadedImages[selectedLayer.imageId];
+    if (!selectedLayer || selectedLayer.locked || !image) return;
+    if (!stageSize.width || !stageSize.height || !videoSize.width || !videoSize.height) return;
+    const quad = frameQuad.map(point =>
+      framePointToStage(point, frameWidth, stageSize.width, stageSize.height, videoSize.width, videoSize.height)) as Quad;
+
+    const last = lastMarkerFit.current;
+    if (last && last.layerId === selectedLayer.id
+      && last.quad.every((point, index) => Math.hypot(point.x - quad[index].x, point.y - quad[index].y) < MARKER_FIT_TOLERANCE)) {
+      return;
     }
+    const box = fitLayerBox(stageSize.width, stageSize.height, image.width, image.height);
+    const fitted = fitTransformToPaper(quad, markerPaper, box, image.width, image.height, selectedLayer.transform);
+    if (!fitted) return;
+    // The first fit is one undo step; following the paper after that isn't
+    if (!last || last.layerId !== selectedLayer.id) history.recordEdit();
+    lastMarkerFit.current = { layerId: selectedLayer.id, quad };
+    updateSelectedTransform(() => fitted);
   };
 
-  const handleTouchEnd = (e: React.TouchEvent) => {
-    if (!isPictureMoveActive && !isCameraMoveActive) return;
-    
-    if (e.touches.length === 0) {
-      // All touches ended
-      isDragging.current = false;
-      isPinching.current = false;
-      
-      // Save to localStorage
-      if (isPictureMoveActive) {
-        localStorage.setItem('tracecam_image_transform', JSON.stringify(imagePosition));
-      } else if (isCameraMoveActive) {
-        localStorage.setItem('tracecam_camera_transform', JSON.stringify(cameraTransform));
-      }
-    } else if (e.touches.length === 1 && isPinching.current) {
-      // Transition from pinch to single touch drag
-      isPinching.current = false;
-      isDragging.current = true;
-      dragStartPos.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+  const markers = useMarkerDetection(videoRef, markerFit && !!stream && !isAligning, handleMarkerPaper);
+
+  // Auto-fit and pinning both move the layers with the paper; one at a time
+  const handleMarkerFitChange = (enabled: boolean) => {
+    lastMarkerFit.current = null;
+    setMarkerFit(enabled);
+    if (enabled) {
+      setPinToPaper(false);
+      setShowMarkers(false);
     }
   };
 
-  // Load from localStorage on mount
+  const handlePinToPaperToggle = () => {
+    if (!pinToPaper) setMarkerFit(false);
+    setPinToPaper(!pinToPaper);
+  };
+
+  const handleMarkerPaperChange = (paper: PaperSize) => {
+    lastMarkerFit.current = null;
+    setMarkerPaper(paper);
+    saveSettings({ markerPaper: paper });
+  };
+
+  // Corner pin handlers (perspective warp of the selected layer)
+  const handleCornerPointerDown = (e: React.PointerEvent, cornerIndex: number) => {
+    if (hideMode || !isCornerPinActive || !selectedLayer || selectedLayer.locked) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingCorner.current = cornerIndex;
+    history.beginEdit();
+    dragStartPos.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handleCornerPointerMove = (e: React.PointerEvent, box: { width: number; height: number }) => {
+    const cornerIndex = draggingCorner.current;
+    if (cornerIndex === null || !selectedLayer || !box.width || !box.height) return;
+    e.stopPropagation();
+
+    // Corners live in the layer's own (unrotated, unscaled) box, normalised to 0..1
+    const delta = screenDeltaToLocal(
+      e.clientX - dragStartPos.current.x,
+      e.clientY - dragStartPos.current.y,
+      [cameraTransform, selectedLayer.transform],
+    );
+    updateSelectedTransform(prev => {
+      const corners = [...(prev.corners ?? createDefaultQuad())] as Quad;
+      corners[cornerIndex] = {
+        x: corners[cornerIndex].x + delta.x / box.width,
+        y: corners[cornerIndex].y + delta.y / box.height,
+      };
+      return { ...prev, corners };
+    });
+    dragStartPos.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handleCornerPointerUp = (e: React.PointerEvent) => {
+    if (draggingCorner.current === null) return;
+    e.stopPropagation();
+    draggingCorner.current = null;
+    history.endEdit();
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  // Load saved settings on mount
   useEffect(() => {
-    const savedImageTransform = localStorage.getItem('tracecam_image_transform');
-    const savedCameraTransform = localStorage.getItem('tracecam_camera_transform');
-    
-    if (savedImageTransform) {
-      try {
-        const parsedTransform = JSON.parse(savedImageTransform);
-        if (parsedTransform && typeof parsedTransform === 'object') {
-          setImagePosition(parsedTransform);
-        }
-      } catch (e) {
-        console.error("Failed to parse image transform from localStorage", e);
-      }
+    const settings = loadSettings();
+    setCameraTransform(settings.cameraTransform);
+    setRotationSnap(settings.rotationSnap);
+    setGridSettings(settings.grid);
+    setCameraPreferences(settings.camera);
+    setMeasureSettings(settings.measure);
+    setMarkerPaper(settings.markerPaper);
+    setInstallPromptDismissed(settings.installPromptDismissed);
+    if (settings.privacyAccepted) {
+      setShowPrivacy(false);
     }
-    
-    if (savedCameraTransform) {
+  }, []);
+
+  // Restore the layer stack on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreLayers = async () => {
       try {
-        const parsedTransform = JSON.parse(savedCameraTransform);
-        if (parsedTransform && typeof parsedTransform === 'object') {
-          setCameraTransform(parsedTransform);
+        const settings = loadSettings();
+        // Images saved by the earliest builds live in localStorage; move them over first
+        const migratedId = await migrateLegacyImage();
+        const savedLayers = settings.layers.map(layer =>
+          layer.imageId === LEGACY_IMAGE_PLACEHOLDER && migratedId ? { ...layer, imageId: migratedId } : layer
+        );
+
+        // Drop layers whose image has been deleted; layers migrated from old builds take the image's name
+        const records = await Promise.all(savedLayers.map(layer => getImage(layer.imageId)));
+        const restored = savedLayers.flatMap((layer, index) => {
+          const record = records[index];
+          return record ? [{ ...layer, name: layer.name || record.name }] : [];
+        });
+        if (cancelled) return;
+
+        const savedSelectedId = settings.selectedLayerId;
+        setLayers(restored);
+        setSelectedLayerId(
+          restored.some(layer => layer.id === savedSelectedId)
+            ? savedSelectedId
+            : restored[restored.length - 1]?.id ?? ''
+        );
+        setLayersRestored(true);
+      } catch (err) {
+        console.error('Failed to restore layers', err);
+        if (!cancelled) {
+          // Carry on with an empty stack, without saving over the one that failed
+          setSkipLayerSave(true);
+          setStorageError(`${err instanceof Error ? err.message : 'Failed to restore overlay images'}. ${UNSAVED_LAYERS_NOTICE}`);
+          setLayersRestored(true);
         }
-      } catch (e) {
-        console.error("Failed to parse camera transform from localStorage", e);
       }
-    }
+    };
+
+    restoreLayers();
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Check privacy consent from localStorage on mount
+  // Save the layer stack whenever it changes (after a successful restore).
+  // Pinning and marker auto-fit move the layers several times a second, so
+  // while they run the writes are held to one per TRACKED_SAVE_INTERVAL_MS.
   useEffect(() => {
-    const privacyAccepted = localStorage.getItem('tracecam_privacy_accepted');
-    if (privacyAccepted === 'true') {
-      setShowPrivacy(false);
-    }
-
-    // Restore overlay image and opacity from localStorage
-    const savedImage = localStorage.getItem('tracecam_overlay_image');
-    const savedOpacity = localStorage.getItem('tracecam_overlay_opacity');
-    
-    if (savedImage) {
-      setOverlayImage(savedImage);
-    }
-    if (savedOpacity) {
-      setOverlayOpacity(parseFloat(savedOpacity));
+    if (!layersRestored || skipLayerSave) return;
+    const save = () => {
+      lastLayerSave.current = Date.now();
+      saveSettings({ layers, selectedLayerId });
+    };
+    const wait = pinToPaper || markerFit ? lastLayerSave.current + TRACKED_SAVE_INTERVAL_MS - Date.now() : 0;
+    if (wait <= 0) {
+      save();
+      return;
     }
-  }, []);
+    const timer = window.setTimeout(save, wait);
+    // Don't lose the last position if the page closes first
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [layers, selectedLayerId, layersRestored, skipLayerSave, pinToPaper, markerFit]);
 
   // Check if camera API is supported
   useEffect(() => {
@@ -216,37 +509,38 @@ const App: React.FC = () => {
   useEffect(() => {
     if (!cameraSupported || showPrivacy) return;
 
+    let cancelled = false;
+
     const startCamera = async () => {
       try {
         setError('');
-        
-        // Try back camera first (exact)
-        let mediaStream: MediaStream;
-        try {
-          mediaStream = await navigator.mediaDevices.getUserMedia({
-            video: { facingMode: { exact: "environment" } }
-          });
-        } catch (backCameraError) {
-          console.log('Back camera (exact) failed, trying fallback...', backCameraError);
-          
-          // Fallback to preferred back camera
-          try {
-            mediaStream = await navigator.mediaDevices.getUserMedia({
-              video: { facingMode: "environment" }
-            });
-          } catch (fallbackError) {
-            console.log('Back camera (preferred) failed, trying any camera...', fallbackError);
-            
-            // Final fallback to any camera
-            mediaStream = await navigator.mediaDevices.getUserMedia({
-              video: true
-            });
-          }
+
+        const mediaStream = await openCamera(cameraPreferences);
+
+        // A newer camera choice replaced this one while it was opening
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
         }
 
         streamRef.current = mediaStream;
         setStream(mediaStream);
 
+        // Read what the new track can do; torch, zoom and locks start from the device defaults
+        const track = mediaStream.getVideoTracks()[0];
+        const features = track ? getCameraFeatures(track) : NO_CAMERA_FEATURES;
+        if (track) {
+          setActiveDeviceId(track.getSettings().deviceId ?? '');
+          setHardwareZoom(getTrackZoom(track));
+        }
+        setCameraFeatures(features);
+        setTorchOn(false);
+        setCameraLocks(NO_CAMERA_LOCKS);
+        if (!features.pointsOfInterest) {
+          setTapToFocus(false);
+        }
+        refreshCameraDevices();
+
         // Attach stream to video element
         if (videoRef.current) {
           videoRef.current.srcObject = mediaStream;
@@ -265,92 +559,774 @@ const App: React.FC = () => {
 
     // Cleanup function
     return () => {
+      cancelled = true;
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
         streamRef.current = null;
       }
     };
-  }, [cameraSupported, showPrivacy]);
+  }, [cameraSupported, showPrivacy, cameraPreferences]);
+
+  // Keep the camera list current when devices are plugged in or removed
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', refreshCameraDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshCameraDevices);
+  }, []);
+
+  // Reload the list of video inputs
+  const refreshCameraDevices = async () => {
+    try {
+      setCameraDevices(await listCameras());
+    } catch (err) {
+      console.error('Failed to list cameras', err);
+    }
+  };
+
+  // Handle a new device, resolution or frame rate; the camera effect reopens the stream
+  const handleCameraPreferencesChange = (preferences: CameraPreferences) => {
+    if (JSON.stringify(preferences) === JSON.stringify(cameraPreferences)) return;
+    setCameraPreferences(preferences);
+    saveSettings({ camera: preferences });
+  };
+
+  const handleTorchChange = async (on: boolean) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await setTorch(track, on);
+      setTorchOn(on);
+    } catch (err) {
+      console.error('Failed to switch torch', err);
+    }
+  };
+
+  const handleHardwareZoomChange = async (zoom: number) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    setHardwareZoom(zoom);
+    try {
+      await applyHardwareZoom(track, zoom);
+    } catch (err) {
+      console.error('Failed to set hardware zoom', err);
+    }
+  };
+
+  // Handle focus / exposure / white balance lock changes
+  const handleCameraLocksChange = async (locks: CameraLocks) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await applyCameraLocks(track, cameraFeatures, locks);
+      setCameraLocks(locks);
+    } catch (err) {
+      console.error('Failed to lock camera controls', err);
+    }
+  };
+
+  // Turning tap-to-focus on closes the sheet so the video can be tapped
+  const handleTapToFocusChange = (enabled: boolean) => {
+    setTapToFocus(enabled);
+    if (enabled) {
+      setShowCameraSettings(false);
+      setIsPictureMoveActive(false);
+      setIsCameraMoveActive(false);
+      setIsCornerPinActive(false);
+    }
+  };
+
+  // Handle a tap on the video while tap-to-focus is on
+  const handleVideoTap = async (e: React.MouseEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (hideMode || !tapToFocus || !track || !video.videoWidth || !video.videoHeight) return;
+    // A drag in a move mode ends with a click too; that's not a focus request
+    if (isPictureMoveActive || isCameraMoveActive || isCornerPinActive) return;
+
+    // The video sits inside the camera transform, whose origin is the centre of the box
+    const rect = video.getBoundingClientRect();
+    const local = screenDeltaToLocal(
+      e.clientX - (rect.left + rect.width / 2),
+      e.clientY - (rect.top + rect.height / 2),
+      [cameraTransform],
+    );
+    const point = coverPointToFrame(
+      stageSize.width / 2 + local.x,
+      stageSize.height / 2 + local.y,
+      stageSize.width,
+      stageSize.height,
+      video.videoWidth,
+      video.videoHeight,
+    );
+
+    setFocusRing({ x: e.clientX, y: e.clientY });
+    try {
+      await focusAtPoint(track, cameraFeatures, cameraLocks, point);
+    } catch (err) {
+      console.error('Tap to focus failed', err);
+    }
+  };
+
+  // Fade the focus ring out shortly after a tap
+  useEffect(() => {
+    if (!focusRing) return;
+    const timeout = window.setTimeout(() => setFocusRing(null), 800);
+    return () => window.clearTimeout(timeout);
+  }, [focusRing]);
+
+  // Handle opening the snapshot gallery
+  const handleGalleryOpen = async () => {
+    setShowGallery(true);
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (err) {
+      console.error('Failed to load snapshots', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    }
+  };
+
+  // Handle capturing the current view, with or without the overlay layers
+  const handleCapture = async (variant: SnapshotVariant) => {
+    const options = buildCaptureOptions(variant === 'overlay');
+    if (!options) return;
+    setIsCapturing(true);
+    try {
+      const { blob, width, height } = await captureSnapshot(options);
+      const snapshot = await saveSnapshot(blob, width, height, variant);
+      setSnapshots(prev => [snapshot, ...prev]);
+    } catch (err) {
+      console.error('Capture failed', err);
+      if (err instanceof ImageStoreError && err.reason === 'quota') {
+        setStorageError('Storage is full. Delete some snapshots or references to save new ones.');
+      } else {
+        setStorageError(err instanceof Error ? err.message : 'Capture failed');
+      }
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    try {
+      await deleteSnapshot(id);
+      setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id));
+    } catch (err) {
+      console.error('Failed to delete snapshot', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    }
+  };
+
+  // Handle opening the time-lapse panel
+  const handleTimelapseOpen = async () => {
+    setShowTimelapse(true);
+    try {
+      setRecordings(await listRecordings());
+    } catch (err) {
+      console.error('Failed to load recordings', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to load recordings');
+    }
+  };
+
+  const handleTimelapseStart = () => {
+    try {
+      timelapse.start(timelapseInterval, timelapseWithOverlay);
+      // Get the panel out of the way so the first frames show the drawing
+      setShowTimelapse(false);
+    } catch (err) {
+      console.error('Failed to start time-lapse', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to start time-lapse');
+    }
+  };
+
+  const handleTimelapseStop = async () => {
+    setIsSavingTimelapse(true);
+    try {
+      const result = await timelapse.stop();
+      if (result) {
+        const recording = await saveRecording(result);
+        setRecordings(prev => [recording, ...prev]);
+      }
+    } catch (err) {
+      console.error('Failed to save time-lapse', err);
+      if (err instanceof ImageStoreError && err.reason === 'quota') {
+        setStorageError('Storage is full. Delete some recordings or snapshots to save new ones.');
+      } else {
+        setStorageError(err instanceof Error ? err.message : 'Failed to save time-lapse');
+      }
+    } finally {
+      setIsSavingTimelapse(false);
+    }
+  };
+
+  const handleDeleteRecording = async (id: string) => {
+    try {
+      await deleteRecording(id);
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+    } catch (err) {
+      console.error('Failed to delete recording', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to delete recording');
+    }
+  };
+
+  // Handle opening the project panel
+  const handleProjectOpen = () => {
+    setProjectError('');
+    setProjectExport(null);
+    setShowProject(true);
+  };
+
+  // Bundle the layer stack, its images and the settings into a project file
+  const handleProjectExport = async () => {
+    setProjectBusy('export');
+    setProjectError('');
+    try {
+      const imageIds = [...new Set(layers.map(layer => layer.imageId))];
+      const images = (await Promise.all(imageIds.map(getImage))).filter((image): image is StoredImage => !!image);
+      const blob = await createProjectFile(images, {
+        layers,
+        selectedLayerId,
+        cameraTransform,
+        settings: {
+          rotationSnap,
+          grid: gridSettings,
+          camera: { resolution: cameraPreferences.resolution, frameRate: cameraPreferences.frameRate },
+          measure: measureSettings,
+          markerPaper,
+        },
+      });
+      setProjectExport(new File([blob], projectFileName(Date.now()), { type: PROJECT_MIME_TYPE }));
+    } catch (err) {
+      console.error('Failed to export project', err);
+      setProjectError(err instanceof Error ? err.message : 'Failed to export project');
+    } finally {
+      setProjectBusy(null);
+    }
+  };
+
+  // Replace the layer stack with a project file. The file is checked and its
+  // images saved before anything changes, so a bad file leaves the app as it was.
+  const handleProjectImport = async (file: File) => {
+    if (layers.length > 0 && !window.confirm('Replace the current layers with this project? Their images stay in the library.')) {
+      return;
+    }
+    setProjectBusy('import');
+    setProjectError('');
+    const savedIds: string[] = [];
+    try {
+      const project = await parseProjectFile(file);
+      // Images get new ids in this library; layers are pointed at them below
+      const imageIds: Record<string, string> = {};
+      for (const image of project.images) {
+        const record = await saveImage(image.original, image.name, image.settings);
+        savedIds.push(record.id);
+        if (image.processed) {
+          await saveProcessedImage(record.id, image.processed.blob, image.processed.options);
+        }
+        imageIds[image.id] = record.id;
+      }
+
+      await Promise.all(layers.map(saveLayerSettings));
+      setLayers(project.layers.map(layer => ({ ...layer, imageId: imageIds[layer.imageId] })));
+      setSelectedLayerId(project.selectedLayerId);
+      setCameraTransform(project.cameraTransform);
+      setRotationSnap(project.settings.rotationSnap);
+      saveSettings({ cameraTransform: project.cameraTransform, rotationSnap: project.settings.rotationSnap });
+      handleGridChange(project.settings.grid);
+      handleCameraPreferencesChange({ ...cameraPreferences, ...project.settings.camera });
+      if (project.settings.measure) handleMeasureChange(project.settings.measure);
+      if (project.settings.markerPaper) handleMarkerPaperChange(project.settings.markerPaper);
+      // Undo steps belong to the project that was replaced
+      history.clear();
+      refreshLibrary();
+      setShowProject(false);
+    } catch (err) {
+      console.error('Failed to import project', err);
+      // Don't leave half an import in the library
+      await Promise.all(savedIds.map(id => deleteImage(id).catch(() => undefined)));
+      if (err instanceof ProjectFileError) {
+        setProjectError(err.message);
+      } else if (err instanceof ImageStoreError && err.reason === 'quota') {
+        setProjectError('Not enough storage space to import this project. Free up space on your device and try again.');
+      } else {
+        setProjectError(err instanceof Error ? err.message : 'Failed to import project');
+      }
+    } finally {
+      setProjectBusy(null);
+    }
+  };
+
+  // Handle closing the install prompt; it doesn't come back on this device
+  const handleInstallPromptDismiss = () => {
+    setInstallPromptDismissed(true);
+    saveSettings({ installPromptDismissed: true });
+  };
+
+  const handleCameraSettingsOpen = () => {
+    refreshCameraDevices();
+    setShowCameraSettings(true);
+  };
 
   // Handle privacy dismissal
   const handlePrivacyAccept = () => {
     setShowPrivacy(false);
-    localStorage.setItem('tracecam_privacy_accepted', 'true');
+    saveSettings({ privacyAccepted: true });
+  };
+
+  // Reload the reference library list from IndexedDB
+  const refreshLibrary = async () => {
+    try {
+      setLibraryImages(await listImages());
+    } catch (err) {
+      console.error('Failed to load reference library', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to load reference library');
+    }
+  };
+
+  // Remember a layer's alignment on its image, so the library can restore it later
+  const saveLayerSettings = async (layer: OverlayLayer) => {
+    try {
+      await updateImageSettings(layer.imageId, {
+        imagePosition: layer.transform,
+        cameraTransform,
+        overlayOpacity: layer.opacity,
+        adjustments: layer.adjustments,
+      });
+    } catch (err) {
+      console.error('Failed to save image settings', err);
+    }
+  };
+
+  // Put an image on a new layer at the top of the stack and select it
+  const addLayerForImage = (record: StoredImage) => {
+    const layer = createLayer(
+      record.id,
+      record.name,
+      record.settings ? sanitizeTransform(record.settings.imagePosition) : undefined,
+      record.settings?.overlayOpacity ?? selectedLayer?.opacity,
+      record.settings?.adjustments,
+    );
+    setLayers(prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  // Handle picking an image in the library
+  const handleSelectImage = async (id: string) => {
+    if (libraryMode === 'replace' && selectedLayer?.imageId === id) {
+      setShowLibrary(false);
+      return;
+    }
+    try {
+      const record = await getImage(id);
+      if (!record) {
+        refreshLibrary();
+        return;
+      }
+
+      if (libraryMode === 'add' || !selectedLayer) {
+        addLayerForImage(record);
+      } else {
+        // Swap the selected layer's image and restore the alignment that belongs to it
+        await saveLayerSettings(selectedLayer);
+        const settings = record.settings;
+        updateLayer(selectedLayer.id, {
+          imageId: record.id,
+          name: record.name,
+          transform: settings ? sanitizeTransform(settings.imagePosition) : createIdentityTransform(),
+          opacity: settings?.overlayOpacity ?? selectedLayer.opacity,
+          adjustments: settings?.adjustments ?? DEFAULT_ADJUSTMENTS,
+        });
+        if (settings) {
+          const restoredCamera = sanitizeTransform(settings.cameraTransform);
+          setCameraTransform(restoredCamera);
+          saveSettings({ cameraTransform: restoredCamera });
+        }
+      }
+      setShowLibrary(false);
+    } catch (err) {
+      console.error('Failed to open image', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to open image');
+    }
+  };
+
+  // Handle renaming a library image
+  const handleRenameImage = async (id: string, name: string) => {
+    try {
+      await renameImage(id, name);
+      setLayers(prev => prev.map(layer => (layer.imageId === id ? { ...layer, name } : layer)));
+      refreshLibrary();
+    } catch (err) {
+      console.error('Failed to rename image', err);
+    }
+  };
+
+  // Handle deleting a library image
+  const handleDeleteImage = async (id: string) => {
+    try {
+      await deleteImage(id);
+    } catch (err) {
+      console.error('Failed to delete image', err);
+      setStorageError(err instanceof Error ? err.message : 'Failed to delete image');
+      return;
+    }
+    // Layers showing the deleted image go with it
+    const remaining = layers.filter(layer => layer.imageId !== id);
+    setLayers(remaining);
+    if (!remaining.some(layer => layer.id === selectedLayerId)) {
+      setSelectedLayerId(remaining[remaining.length - 1]?.id ?? '');
+    }
+    refreshLibrary();
+  };
+
+  // Handle Library button (and Add Layer in the layer panel)
+  const openLibrary = (mode: 'replace' | 'add') => {
+    setShowMoveMenu(false);
+    setShowOpacitySlider(false);
+    setShowLayerPanel(false);
+    setLibraryMode(mode);
+    setShowLibrary(true);
+    refreshLibrary();
+  };
+
+  // Handle Layers button
+  const handleLayerPanelOpen = () => {
+    setShowMoveMenu(false);
+    setShowOpacitySlider(false);
+    setShowGridControls(false);
+    setShowLayerPanel(true);
+  };
+
+  // Handle removing a layer (the image stays in the library)
+  const handleRemoveLayer = async (id: string) => {
+    const layer = layers.find(item => item.id === id);
+    if (!layer) return;
+    await saveLayerSettings(layer);
+    const remaining = layers.filter(item => item.id !== id);
+    setLayers(remaining);
+    if (id === selectedLayerId) {
+      setSelectedLayerId(remaining[remaining.length - 1]?.id ?? '');
+    }
+  };
+
+  const handleToggleLayerVisible = (id: string) => {
+    history.recordEdit();
+    setLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, visible: !layer.visible } : layer)));
+  };
+
+  const handleToggleLayerLocked = (id: string) => {
+    setLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, locked: !layer.locked } : layer)));
+  };
+
+  const handleMoveLayer = (id: string, direction: 1 | -1) => {
+    setLayers(prev => moveLayer(prev, id, direction));
+  };
+
+  // Handle opening the adjustments for the selected layer
+  const handleAdjustmentsOpen = () => {
+    if (!selectedLayer) return;
+    setShowLayerPanel(false);
+    setShowAdjustments(true);
+  };
+
+  // Adjustments apply live while the panel is open; the image remembers them once it closes
+  const handleAdjustmentsOpenChange = (open: boolean) => {
+    setShowAdjustments(open);
+    if (!open && selectedLayer) {
+      saveLayerSettings(selectedLayer);
+    }
+  };
+
+  // Handle an adjustment change on the selected layer
+  const handleAdjustmentsChange = (adjustments: ImageAdjustments) => {
+    if (selectedLayer) updateLayer(selectedLayer.id, { adjustments });
   };
 
+  // Handle Line Art button in the layer panel
+  const handleLineArtOpen = async () => {
+    if (!selectedLayer) return;
+    setShowLayerPanel(false);
+    try {
+      const record = await getImage(selectedLayer.imageId);
+      setLineArtOptions(record?.processed?.options);
+    } catch (err) {
+      console.error('Failed to load line art settings', err);
+      setLineArtOptions(undefined);
+    }
+    setShowLineArt(true);
+  };
+
+  // Generate line art for the selected layer's image and switch the layer to it
+  const handleGenerateLineArt = async (options: LineArtOptions) => {
+    if (!selectedLayer) return;
+    const { id: layerId, imageId } = selectedLayer;
+    setIsProcessingLineArt(true);
+    try {
+      const record = await getImage(imageId);
+      if (!record) return;
+      const blob = await processLineArt(record.working, options);
+      await saveProcessedImage(imageId, blob, options);
+      setLineArtOptions(options);
+      reloadImage(imageId);
+      updateLayer(layerId, { showProcessed: true });
+    } catch (err) {
+      console.error('Line art processing failed', err);
+      if (err instanceof ImageStoreError && err.reason === 'quota') {
+        setStorageError('Not enough storage space to keep the line art. Free up space on your device and try again.');
+      } else {
+        setStorageError(err instanceof Error ? err.message : 'Line art processing failed');
+      }
+    } finally {
+      setIsProcessingLineArt(false);
+    }
+  };
+
+  // Drop the processed version; every layer using this image goes back to the original
+  const handleDiscardLineArt = async () => {
+    if (!selectedLayer) return;
+    const { imageId } = selectedLayer;
+    try {
+      await clearProcessedImage(imageId);
+      setLineArtOptions(undefined);
+      setLayers(prev => prev.map(layer => (layer.imageId === imageId ? { ...layer, showProcessed: false } : layer)));
+      reloadImage(imageId);
+    } catch (err) {
+      console.error('Failed to discard line art', err);
+    }
+  };
+
+  // Validate and store a new reference, then show it on its own layer on top.
+  // Every way in (picker, paste, drop, share sheet, ?image=) ends up here.
+  const addImageFile = async (file: File) => {
+    try {
+      setStorageError(skipLayerSave ? UNSAVED_LAYERS_NOTICE : '');
+      validateImageFile(file);
+      // A new reference starts centred on its own layer
+      const record = await saveImage(file, file.name, {
+        imagePosition: createIdentityTransform(),
+        cameraTransform,
+        overlayOpacity: selectedLayer?.opacity ?? DEFAULT_LAYER_OPACITY,
+      });
+      addLayerForImage(record);
+      setShowLibrary(false);
+      refreshLibrary();
+    } catch (err) {
+      console.error('Failed to save overlay image', err);
+      if (err instanceof ImageStoreError && err.reason === 'quota') {
+        setStorageError('Not enough storage space to keep this image. Free up space on your device and try again.');
+      } else {
+        setStorageError(err instanceof Error ? err.message : 'Failed to save image');
+      }
+    }
+  };
+
+  // Latest addImageFile for the window listeners below
+  const addImageFileRef = useRef(addImageFile);
+  useEffect(() => {
+    addImageFileRef.current = addImageFile;
+  });
+
   // Handle image upload
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const base64 = e.target?.result as string;
-        setOverlayImage(base64);
-        // localStorage.setItem('tracecam_overlay_image', base64); // This can exceed quota
-      };
-      reader.readAsDataURL(file);
+    // Reset the input so picking the same file again still fires onChange
+    event.target.value = '';
+    if (file) addImageFile(file);
+  };
+
+  // Paste an image from the clipboard, unless a text field has focus
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      const file = imageFromClipboard(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      addImageFileRef.current(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  // Open an image handed over in the URL, once the saved layers are back:
+  // shared from another app (?shared=1, see src/sw.js) or linked (?image=...)
+  const launchParamsHandled = useRef(false);
+  useEffect(() => {
+    if (!layersRestored || launchParamsHandled.current) return;
+    launchParamsHandled.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const shared = params.has(SHARED_PARAM);
+    const imageUrl = params.get(IMAGE_URL_PARAM);
+    if (!shared && !imageUrl) return;
+
+    // Drop the parameters so a reload doesn't add the image again
+    params.delete(SHARED_PARAM);
+    params.delete(IMAGE_URL_PARAM);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+    const openLaunchImage = async () => {
+      try {
+        let file: File | null;
+        if (imageUrl) {
+          // Anyone can send a link, so nothing is downloaded until the user
+          // says they trust where it comes from
+          const url = parseImageUrl(imageUrl);
+          const source = url.protocol === 'data:' ? 'the link itself' : url.origin;
+          if (!window.confirm(`Open the image from ${source}?`)) return;
+          file = await fetchImageFromUrl(url);
+        } else {
+          file = await takeSharedImage();
+        }
+        if (file) {
+          await addImageFileRef.current(file);
+        } else {
+          setStorageError('The shared image could not be found. Try sharing it again.');
+        }
+      } catch (err) {
+        console.error('Failed to open image from the URL', err);
+        setStorageError(err instanceof Error ? err.message : 'Failed to open image');
+      }
+    };
+    openLaunchImage();
+  }, [layersRestored]);
+
+  // Handle files dragged over the app. Entering child elements fires
+  // dragenter/dragleave in pairs, so a counter tells when the drag really left.
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e.dataTransfer)) return;
+    dragDepth.current += 1;
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e.dataTransfer)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDraggingFile(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    // Without this the browser would open the file instead of dropping it
+    if (isFileDrag(e.dataTransfer)) e.preventDefault();
+  };
+
+  // Handle a dropped file: images become layers, project files are imported
+  const handleDrop = (e: React.DragEvent) => {
+    dragDepth.current = 0;
+    setIsDraggingFile(false);
+    // Already handled by a panel with its own drop zone
+    if (e.defaultPrevented || !isFileDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    const file = fileFromDrop(e.dataTransfer);
+    if (!file || showPrivacy || hideMode) return;
+    if (file.name.endsWith(`.${PROJECT_EXTENSION}`)) {
+      setShowProject(true);
+      handleProjectImport(file);
+    } else {
+      addImageFile(file);
     }
   };
 
-  // Handle opacity change
+  // Handle opacity change (applies to the selected layer)
   const handleOpacityChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newOpacity = parseFloat(event.target.value);
-    setOverlayOpacity(newOpacity);
-    localStorage.setItem('tracecam_overlay_opacity', newOpacity.toString());
+    if (!selectedLayerId) return;
+    updateLayer(selectedLayerId, { opacity: parseFloat(event.target.value) });
   };
 
-  // Clear overlay image
-  const handleClearImage = () => {
-    setOverlayImage('');
-    const resetImagePos = { x: 0, y: 0, scale: 1 };
-    const resetCameraPos = { x: 0, y: 0, scale: 1 };
-    setImagePosition(resetImagePos);
-    setCameraTransform(resetCameraPos);
-    localStorage.removeItem('tracecam_image_transform');
-    localStorage.removeItem('tracecam_camera_transform');
+  // Clear all layers (images stay in the library with their alignment)
+  const handleClearImage = async () => {
+    // Lets the camera position come back with undo
+    history.recordEdit();
+    await Promise.all(layers.map(saveLayerSettings));
+    setLayers([]);
+    setSelectedLayerId('');
+    setCameraTransform(createIdentityTransform());
+    saveSettings({ cameraTransform: createIdentityTransform() });
   };
 
   // Handle Move button toggle
   const handleMoveToggle = () => {
     setShowMoveMenu(prev => !prev);
-    // When closing the move menu, deactivate picture move mode and save position
+    // When closing the move menu, deactivate picture move mode
     if (showMoveMenu && isPictureMoveActive) {
       setIsPictureMoveActive(false);
-      localStorage.setItem('tracecam_image_transform', JSON.stringify(imagePosition));
+    }
+    if (showMoveMenu && isCornerPinActive) {
+      setIsCornerPinActive(false);
     }
     // Close other menus when opening move
     if (!showMoveMenu) {
       setShowOpacitySlider(false);
+      setShowGridControls(false);
     }
   };
 
   const handlePictureMoveToggle = () => {
     setIsPictureMoveActive(prev => !prev);
-    // Disable camera mode when enabling picture mode
+    // Disable camera and corner modes when enabling picture mode
     if (!isPictureMoveActive) {
       setIsCameraMoveActive(false);
+      setIsCornerPinActive(false);
     }
   };
 
   const handleCameraMoveToggle = () => {
     setIsCameraMoveActive(prev => !prev);
-    // Disable picture mode when enabling camera mode
+    // Disable picture and corner modes when enabling camera mode
     if (!isCameraMoveActive) {
       setIsPictureMoveActive(false);
+      setIsCornerPinActive(false);
+    }
+  };
+
+  const handleCornerPinToggle = () => {
+    setIsCornerPinActive(prev => !prev);
+    // Disable the other modes and start from the unwarped corners if none are set yet
+    if (!isCornerPinActive) {
+      setIsPictureMoveActive(false);
+      setIsCameraMoveActive(false);
+      updateSelectedTransform(prev => (prev.corners ? prev : { ...prev, corners: createDefaultQuad() }));
+    }
+  };
+
+  const handleResetCorners = () => {
+    history.recordEdit();
+    updateSelectedTransform(prev => ({ ...prev, corners: undefined }));
+  };
+
+  // What the flip buttons act on: the camera in camera mode, otherwise the selected (unlocked) layer
+  const flipTarget = isCameraMoveActive
+    ? cameraTransform
+    : isPictureMoveActive && selectedLayer && !selectedLayer.locked ? selectedLayer.transform : null;
+
+  // Mirror the camera view in camera mode, otherwise the selected layer
+  const handleFlip = (axis: 'flipX' | 'flipY') => {
+    history.recordEdit();
+    if (isCameraMoveActive) {
+      const next = { ...cameraTransform, [axis]: !cameraTransform[axis] };
+      setCameraTransform(next);
+      saveSettings({ cameraTransform: next });
+    } else {
+      updateSelectedTransform(prev => ({ ...prev, [axis]: !prev[axis] }));
     }
   };
 
+  const handleRotationSnapToggle = () => {
+    const next = !rotationSnap;
+    setRotationSnap(next);
+    saveSettings({ rotationSnap: next });
+  };
+
   // Handle Hide button
   const handleHide = () => {
     // Lock the image position when hiding
     if (isPictureMoveActive) {
       setIsPictureMoveActive(false);
-      localStorage.setItem('tracecam_image_transform', JSON.stringify(imagePosition));
     }
     if (isCameraMoveActive) {
       setIsCameraMoveActive(false);
-      localStorage.setItem('tracecam_camera_transform', JSON.stringify(cameraTransform));
+      saveSettings({ cameraTransform });
     }
+    setIsCornerPinActive(false);
     
     // Compensate camera transform to prevent jumping
     // When container expands from top-14 to inset-0, it moves up 56px
@@ -361,11 +1337,13 @@ const App: React.FC = () => {
     }));
     
     setHideMode(true);
+    setCalibrationPoints(null);
     setShowMoveMenu(false);
     setShowOpacitySlider(false);
+    setShowGridControls(false);
   };
 
-  // Handle show from eye button
+  // Handle unlock (long press on the eye button)
   const handleShow = () => {
     // Compensate camera transform to prevent jumping  
     // When container shrinks from inset-0 to top-14, it moves down 56px
@@ -384,9 +1362,243 @@ const App: React.FC = () => {
     // Close other menus when opening opacity
     if (!showOpacitySlider) {
       setShowMoveMenu(false);
+      setShowGridControls(false);
+    }
+  };
+
+  // Handle Grid button toggle
+  const handleGridToggle = () => {
+    setShowGridControls(!showGridControls);
+    // Close other menus when opening the grid controls
+    if (!showGridControls) {
+      setShowMoveMenu(false);
+      setShowOpacitySlider(false);
+    }
+  };
+
+  const handleGridChange = (settings: GridSettings) => {
+    setGridSettings(settings);
+    saveSettings({ grid: settings });
+  };
+
+  // Change what Move is set to: the camera, or the selected (unlocked) layer.
+  // update gets the transforms the target sits in, to map screen movement.
+  const updateMoveTarget = (update: (prev: Transform, parents: Transform[]) => Transform) => {
+    if (isCameraMoveActive) {
+      const next = update(cameraTransform, []);
+      setCameraTransform(next);
+      saveSettings({ cameraTransform: next });
+    } else if (isPictureMoveActive) {
+      updateSelectedTransform(prev => update(prev, [cameraTransform]));
+    }
+  };
+
+  // Keyboard shortcuts; a held key's changes become one undo step when it is released
+  // Hide mode is the tracing lock: only the long-press unlock ends it, and no
+  // shortcut works until then
+  const handleShortcut = (action: ShortcutAction) => {
+    if (hideMode) return;
+
+    switch (action.type) {
+      case 'help':
+        setShowShortcuts(prev => !prev);
+        break;
+      case 'hide':
+        handleHide();
+        break;
+      case 'pictureMove':
+        // Like the Picture button, which is disabled with no layer
+        if (!selectedLayer) return;
+        if (!showMoveMenu) handleMoveToggle();
+        handlePictureMoveToggle();
+        break;
+      case 'cameraMove':
+        if (!showMoveMenu) handleMoveToggle();
+        handleCameraMoveToggle();
+        break;
+      case 'opacity':
+        if (!selectedLayer) return;
+        history.beginEdit();
+        updateLayer(selectedLayer.id, { opacity: clampLayerOpacity(selectedLayer.opacity + action.delta) });
+        break;
+      case 'nudge':
+        history.beginEdit();
+        updateMoveTarget((prev, parents) => {
+          const delta = screenDeltaToLocal(action.dx, action.dy, parents);
+          return { ...prev, x: prev.x + delta.x, y: prev.y + delta.y };
+        });
+        break;
+      case 'zoom':
+        history.beginEdit();
+        updateMoveTarget(prev => ({ ...prev, scale: clampScale(prev.scale * action.factor) }));
+        break;
+      case 'reset':
+        history.beginEdit();
+        updateMoveTarget(() => createIdentityTransform());
+        break;
+    }
+  };
+
+  useKeyboardShortcuts(!!stream && !showPrivacy, handleShortcut, history.endEdit);
+
+  // Stage pixels per centimetre on the paper, when calibrated
+  const pixelsPerCm = stagePixelsPerCm(
+    measureSettings.calibration,
+    stageSize.width,
+    stageSize.height,
+    videoSize.width,
+    videoSize.height,
+  );
+
+  // Size of the selected layer on the paper, from its fitted box and scale
+  const selectedImage = selectedLayer && loadedImages[selectedLayer.imageId];
+  const selectedLayerBox = selectedImage
+    ? fitLayerBox(stageSize.width, stageSize.height, selectedImage.width, selectedImage.height)
+    : null;
+  const selectedLayerSizeCm = pixelsPerCm && selectedLayer && selectedLayerBox
+    ? {
+        width: selectedLayerBox.width * selectedLayer.transform.scale / pixelsPerCm,
+        height: selectedLayerBox.height * selectedLayer.transform.scale / pixelsPerCm,
+      }
+    : null;
+
+  // Precise position panel: starts on whatever Move is set to
+  const handleTransformPanelOpen = () => {
+    setTransformTarget(isCameraMoveActive ? 'camera' : 'picture');
+    setShowTransformPanel(true);
+  };
+
+  // Set the panel's target to an exact transform; each change is one undo step
+  const handlePreciseTransform = (next: Transform) => {
+    history.recordEdit();
+    if (transformTarget === 'camera') {
+      setCameraTransform(next);
+      saveSettings({ cameraTransform: next });
+    } else {
+      updateSelectedTransform(() => next);
+    }
+  };
+
+  // Offset that puts the selected layer in the middle of the camera area. The
+  // layer sits in the camera stage, so undo the camera's offset, zoom, rotation
+  // and flips.
+  const centredLayerOffset = () => screenDeltaToLocal(-cameraTransform.x, -cameraTransform.y, [cameraTransform]);
+
+  // Fit (or fill) the target to the camera area at its current rotation, centred
+  const handlePreciseFit = (mode: 'contain' | 'cover') => {
+    const { width, height } = stageSize;
+    if (transformTarget === 'camera') {
+      const scale = fitScale(width, height, cameraTransform.rotation, width, height, mode);
+      handlePreciseTransform({ ...cameraTransform, x: 0, y: 0, scale });
+    } else if (selectedLayer && selectedLayerBox) {
+      // Measured on screen: the layer box as the camera zoom shows it, at the
+      // angle it appears (a mirrored camera turns it the other way)
+      const screenRotation = cameraTransform.rotation
+        + (isMirrored([cameraTransform]) ? -selectedLayer.transform.rotation : selectedLayer.transform.rotation);
+      const scale = fitScale(
+        selectedLayerBox.width * cameraTransform.scale,
+        selectedLayerBox.height * cameraTransform.scale,
+        screenRotation,
+        width,
+        height,
+        mode,
+      );
+      handlePreciseTransform({ ...selectedLayer.transform, ...centredLayerOffset(), scale });
+    }
+  };
+
+  // Back to the middle of the camera area
+  const handlePreciseCentre = () => {
+    if (transformTarget === 'camera') {
+      handlePreciseTransform({ ...cameraTransform, x: 0, y: 0 });
+    } else if (selectedLayer) {
+      handlePreciseTransform({ ...selectedLayer.transform, ...centredLayerOffset() });
     }
   };
 
+  // Reset just the panel's target, unlike Clear which resets everything
+  const handlePreciseReset = () => {
+    handlePreciseTransform(createIdentityTransform());
+  };
+
+  const handleMeasureOpen = () => {
+    setMeasureError('');
+    setShowMeasure(true);
+  };
+
+  const handleMeasureChange = (settings: MeasureSettings) => {
+    setMeasureSettings(settings);
+    saveSettings({ measure: settings });
+  };
+
+  // Start marking a known length in the camera view
+  const handleCalibrateStart = () => {
+    setShowMeasure(false);
+    setShowMoveMenu(false);
+    setTapToFocus(false);
+    setCalibrationLength('');
+    setCalibrationPoints([]);
+  };
+
+  // Each tap marks one end; a third tap starts over from that point
+  const handleCalibrationTap = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    setCalibrationPoints(prev => (prev && prev.length === 1 ? [...prev, point] : [point]));
+  };
+
+  const handleCalibrationCancel = () => {
+    setCalibrationPoints(null);
+  };
+
+  // Turn the marked distance and the length typed in into a calibration
+  const handleCalibrationSave = () => {
+    const length = parseFloat(calibrationLength);
+    if (!calibrationPoints || calibrationPoints.length !== 2 || !(length > 0)) return;
+    if (!videoSize.width || !videoSize.height || !stageSize.width || !stageSize.height) {
+      setStorageError('The camera is not ready yet');
+      return;
+    }
+    const [a, b] = calibrationPoints;
+    // Undo the camera zoom and the cover fit to get camera frame pixels
+    const framePixels = Math.hypot(b.x - a.x, b.y - a.y)
+      / cameraTransform.scale
+      / coverScale(stageSize.width, stageSize.height, videoSize.width, videoSize.height);
+    handleMeasureChange({
+      ...measureSettings,
+      calibration: createCalibration(framePixels, length, measureSettings.unit, videoSize.width),
+    });
+    setCalibrationPoints(null);
+    setMeasureError('');
+    setShowMeasure(true);
+  };
+
+  // Scale the selected layer so it is the given width on the paper
+  const handleLayerWidthChange = (widthCm: number) => {
+    if (!pixelsPerCm || !selectedLayer || !selectedLayerBox) return;
+    if (selectedLayer.locked) {
+      setMeasureError(`${selectedLayer.name} is locked`);
+      return;
+    }
+    const scale = widthCm * pixelsPerCm / selectedLayerBox.width;
+    if (scale > MAX_SCALE) {
+      setMeasureError('That is too large to show in this view. Move the phone further from the paper and calibrate again.');
+      return;
+    }
+    if (scale < MIN_SCALE) {
+      setMeasureError('That is too small to show in this view. Move the phone closer to the paper and calibrate again.');
+      return;
+    }
+    setMeasureError('');
+    history.recordEdit();
+    updateSelectedTransform(prev => ({ ...prev, scale }));
+  };
+
+  // Camera frame size, needed to keep the calibration in frame pixels
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight });
+  };
+
   // Handle video can play event
   const handleCanPlay = () => {
     if (videoRef.current) {
@@ -454,9 +1666,24 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="relative min-h-screen bg-black overflow-hidden">
+    <div
+      className="relative min-h-screen bg-black overflow-hidden"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       {/* ---- UI Elements ---- */}
 
+      {/* Drop target hint while a file is dragged over the app */}
+      {isDraggingFile && !showPrivacy && !hideMode && (
+        <div className="fixed inset-2 z-50 rounded-2xl border-4 border-dashed border-blue-400 bg-blue-500/10 flex items-center justify-center pointer-events-none">
+          <div className="bg-white rounded-full px-4 py-2 shadow-lg text-sm font-medium text-black">
+            Drop an image to add it as a layer
+          </div>
+        </div>
+      )}
+
       {/* Privacy Modal (Highest Priority) */}
       {showPrivacy && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm px-4">
@@ -493,8 +1720,68 @@ const App: React.FC = () => {
             <>
               {/* Top Navigation Bar */}
               <div className="fixed top-0 left-0 right-0 h-14 bg-white flex items-center justify-between px-4 z-40 border-b border-gray-200 shadow-sm">
-                <h1 className="text-lg font-bold text-black">TraceCam</h1>
+                <div className="flex items-center space-x-1">
+                  <h1 className="text-lg font-bold text-black mr-2">TraceCam</h1>
+                  <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    aria-label="Undo"
+                    className="w-9 h-9 flex items-center justify-center text-black rounded-full hover:bg-gray-100 transition-colors duration-200 disabled:opacity-30 disabled:hover:bg-transparent"
+                  >
+                    <Undo2 className="size-4" />
+                  </button>
+                  <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    aria-label="Redo"
+                    className="w-9 h-9 flex items-center justify-center text-black rounded-full hover:bg-gray-100 transition-colors duration-200 disabled:opacity-30 disabled:hover:bg-transparent"
+                  >
+                    <Redo2 className="size-4" />
+                  </button>
+                </div>
                 <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleCameraSettingsOpen}
+                    aria-label="Camera settings"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Camera className="size-4" />
+                  </button>
+                  <button
+                    onClick={handleGalleryOpen}
+                    aria-label="Snapshots"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Aperture className="size-4" />
+                  </button>
+                  <button
+                    onClick={handleTimelapseOpen}
+                    aria-label="Time-lapse"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Video className="size-4" />
+                  </button>
+                  <button
+                    onClick={handleMeasureOpen}
+                    aria-label="Measure"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Ruler className="size-4" />
+                  </button>
+                  <button
+                    onClick={handleProjectOpen}
+                    aria-label="Project"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <FolderOpen className="size-4" />
+                  </button>
+                  <button
+                    onClick={() => setShowShortcuts(true)}
+                    aria-label="Keyboard shortcuts"
+                    className="hidden w-9 h-9 md:flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Keyboard className="size-4" />
+                  </button>
                   <input
                     type="file"
                     accept="image/*"
@@ -508,17 +1795,173 @@ const App: React.FC = () => {
                   >
                     Upload
                   </label>
-                  {overlayImage && (
+                  <button
+                    onClick={() => openLibrary('replace')}
+                    className="hidden md:block bg-gray-100 hover:bg-gray-200 text-black px-4 py-2 rounded-full font-medium transition-colors duration-200 cursor-pointer border border-gray-300 text-sm"
+                  >
+                    Library
+                  </button>
+                  {layers.length > 0 && (
                     <button
                       onClick={handleClearImage}
-                      className="bg-red-100 hover:bg-red-200 text-red-600 px-4 py-2 rounded-full font-medium transition-colors duration-200 cursor-pointer border border-red-300 text-sm"
+                      className="hidden md:block bg-red-100 hover:bg-red-200 text-red-600 px-4 py-2 rounded-full font-medium transition-colors duration-200 cursor-pointer border border-red-300 text-sm"
                     >
                       Clear
                     </button>
                   )}
+                  <button
+                    onClick={() => setShowMoreMenu(true)}
+                    aria-label="More"
+                    className="w-9 h-9 flex md:hidden items-center justify-center bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors duration-200 border border-gray-300"
+                  >
+                    <Ellipsis className="size-4" />
+                  </button>
                 </div>
               </div>
 
+              {/* Storage error banner (below top bar) */}
+              {storageError && (
+                <div className="fixed top-16 left-4 right-4 z-40">
+                  <div className="bg-red-50 border border-red-300 text-red-700 rounded-xl px-4 py-3 shadow-lg flex items-start justify-between text-sm">
+                    <span className="leading-relaxed">{storageError}</span>
+                    <button
+                      onClick={() => setStorageError('')}
+                      className="ml-3 font-semibold text-red-600 hover:text-red-800"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Calibration: mark both ends of a known length on the camera view */}
+              {calibrationPoints && (
+                <>
+                  <div
+                    className="fixed top-14 bottom-14 left-0 right-0 z-30 cursor-crosshair touch-none"
+                    onPointerDown={handleCalibrationTap}
+                  >
+                    <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                      {calibrationPoints.length === 2 && (
+                        <line
+                          x1={calibrationPoints[0].x}
+                          y1={calibrationPoints[0].y}
+                          x2={calibrationPoints[1].x}
+                          y2={calibrationPoints[1].y}
+                          stroke="#facc15"
+                          strokeWidth={2}
+                        />
+                      )}
+                      {calibrationPoints.map((point, index) => (
+                        <circle key={index} cx={point.x} cy={point.y} r={8} fill="none" stroke="#facc15" strokeWidth={2} />
+                      ))}
+                    </svg>
+                  </div>
+                  {calibrationPoints.length < 2 ? (
+                    <div className="fixed top-16 left-4 right-4 z-40 flex justify-center pointer-events-none">
+                      <div className="bg-white/90 border border-gray-200 rounded-full pl-4 pr-1 py-1 shadow-lg flex items-center space-x-3 text-sm pointer-events-auto">
+                        <span className="text-black">
+                          {calibrationPoints.length === 0
+                            ? 'Tap one end of a known length (a ruler or the paper edge)'
+                            : 'Now tap the other end'}
+                        </span>
+                        <button
+                          onClick={handleCalibrationCancel}
+                          className="font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="fixed bottom-16 left-4 right-4 z-40">
+                      <div className="bg-white rounded-xl p-4 border border-gray-200 shadow-lg space-y-3">
+                        <div className="text-black text-sm font-medium text-center">
+                          How long is the marked line? Tap again to start over.
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            step="any"
+                            autoFocus
+                            value={calibrationLength}
+                            onChange={(e) => setCalibrationLength(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCalibrationSave()}
+                            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm text-black"
+                          />
+                          <span className="text-sm text-black">{measureSettings.unit}</span>
+                          <button
+                            onClick={handleCalibrationSave}
+                            disabled={!(parseFloat(calibrationLength) > 0)}
+                            className="bg-slate-600 hover:bg-slate-700 disabled:opacity-60 text-white px-4 py-2 rounded-full font-medium text-sm"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={handleCalibrationCancel}
+                            className="px-3 py-2 rounded-full border border-gray-200 text-black hover:bg-gray-100 text-sm"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {tapToFocus && !storageError && (
+                <div className="fixed top-16 left-4 right-4 z-30 flex justify-center pointer-events-none">
+                  <div className="bg-white/90 border border-gray-200 rounded-full pl-4 pr-1 py-1 shadow-lg flex items-center space-x-3 text-sm pointer-events-auto">
+                    <span className="text-black">
+                      Tap the paper to focus{cameraLocks.focus || cameraLocks.exposure ? ' - stays locked' : ''}
+                    </span>
+                    <button
+                      onClick={() => setTapToFocus(false)}
+                      className="font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100"
+                    >
+                      Done
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Update and install prompts (above the bottom bar); reloading would end a time-lapse */}
+              {pwa.updateReady && !timelapse.isRecording ? (
+                <div className="fixed bottom-16 left-4 right-4 z-30 flex justify-center pointer-events-none">
+                  <div className="bg-white/90 border border-gray-200 rounded-full pl-4 pr-1 py-1 shadow-lg flex items-center space-x-3 text-sm pointer-events-auto">
+                    <span className="text-black">A new version of TraceCam is ready</span>
+                    <button
+                      onClick={pwa.applyUpdate}
+                      className="font-medium px-3 py-1 rounded-full bg-slate-600 hover:bg-slate-700 text-white"
+                    >
+                      Reload
+                    </button>
+                  </div>
+                </div>
+              ) : pwa.canInstall && !installPromptDismissed && (
+                <div className="fixed bottom-16 left-4 right-4 z-30 flex justify-center pointer-events-none">
+                  <div className="bg-white/90 border border-gray-200 rounded-full pl-4 pr-1 py-1 shadow-lg flex items-center space-x-2 text-sm pointer-events-auto">
+                    <span className="text-black mr-1">Install TraceCam to use it offline</span>
+                    <button
+                      onClick={pwa.install}
+                      className="font-medium px-3 py-1 rounded-full bg-slate-600 hover:bg-slate-700 text-white"
+                    >
+                      Install
+                    </button>
+                    <button
+                      onClick={handleInstallPromptDismiss}
+                      aria-label="Not now"
+                      className="font-semibold px-2 py-1 text-gray-500 hover:text-black"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Bottom Control Bar */}
               <div className="fixed bottom-0 left-0 right-0 h-14 bg-white flex items-center justify-around px-4 z-40 border-t border-gray-200 shadow-sm">
                 <button
@@ -535,6 +1978,22 @@ const App: React.FC = () => {
                 >
                   Hide
                 </button>
+                <button
+                  onClick={handleLayerPanelOpen}
+                  className={`text-black font-medium px-4 py-2 rounded-lg transition-colors duration-200 min-h-[44px] ${
+                    showLayerPanel ? 'bg-gray-200' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  Layers
+                </button>
+                <button
+                  onClick={handleGridToggle}
+                  className={`text-black font-medium px-4 py-2 rounded-lg transition-colors duration-200 min-h-[44px] ${
+                    showGridControls ? 'bg-gray-200' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  Grid
+                </button>
                 <button
                   onClick={handleOpacityToggle}
                   className={`text-black font-medium px-4 py-2 rounded-lg transition-colors duration-200 min-h-[44px] ${
@@ -549,18 +2008,37 @@ const App: React.FC = () => {
               {showOpacitySlider && (
                 <div className="fixed bottom-16 left-4 right-4 z-30">
                   <div className="bg-white rounded-xl p-4 border border-gray-200 shadow-lg">
-                    <div className="text-black text-center mb-2 font-medium">
-                      Opacity: {Math.round(overlayOpacity * 100)}%
-                    </div>
-                    <input
-                      type="range"
-                      min={0.1}
-                      max={1}
-                      step={0.01}
-                      value={overlayOpacity}
-                      onChange={handleOpacityChange}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                    />
+                    {selectedLayer ? (
+                      <>
+                        <div className="text-black text-center mb-2 font-medium">
+                          {selectedLayer.name}: {Math.round(selectedLayer.opacity * 100)}%
+                        </div>
+                        <input
+                          type="range"
+                          min={0.1}
+                          max={1}
+                          step={0.01}
+                          value={selectedLayer.opacity}
+                          onChange={handleOpacityChange}
+                          onPointerDown={history.beginEdit}
+                          onPointerUp={history.endEdit}
+                          onKeyDown={history.beginEdit}
+                          onKeyUp={history.endEdit}
+                          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        />
+                      </>
+                    ) : (
+                      <div className="text-gray-500 text-center text-sm">Select a layer to adjust its opacity</div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Grid Controls (appear above bottom bar when active) */}
+              {showGridControls && (
+                <div className="fixed bottom-16 left-4 right-4 z-30">
+                  <div className="bg-white rounded-xl p-4 border border-gray-200 shadow-lg">
+                    <GridControls settings={gridSettings} onChange={handleGridChange} />
                   </div>
                 </div>
               )}
@@ -572,7 +2050,8 @@ const App: React.FC = () => {
                     <div className="flex justify-center space-x-8">
                       <button 
                         onClick={handlePictureMoveToggle}
-                        className={`text-black font-medium px-6 py-2 rounded-lg transition-colors duration-200 border border-gray-200 ${
+                        disabled={!selectedLayer}
+                        className={`text-black font-medium px-6 py-2 rounded-lg transition-colors duration-200 border border-gray-200 disabled:opacity-40 ${
                           isPictureMoveActive ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
                         }`}
                       >
@@ -586,29 +2065,365 @@ const App: React.FC = () => {
                       >
                         Camera
                       </button>
+                      <button 
+                        onClick={handleCornerPinToggle}
+                        disabled={!selectedLayer}
+                        className={`text-black font-medium px-6 py-2 rounded-lg transition-colors duration-200 border border-gray-200 disabled:opacity-40 ${
+                          isCornerPinActive ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+                        }`}
+                      >
+                        Corners
+                      </button>
+                    </div>
+                    {isCornerPinActive && (
+                      <div className="flex items-center justify-center mt-3 space-x-3 text-sm">
+                        <span className="text-gray-500">Drag the corner pins to match the paper</span>
+                        <button
+                          onClick={handleResetCorners}
+                          className="font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100"
+                        >
+                          Reset
+                        </button>
+                      </div>
+                    )}
+                    {flipTarget && (
+                      <div className="flex items-center justify-center mt-3 space-x-3 text-sm">
+                        <span className="text-gray-500">Mirror {isCameraMoveActive ? 'camera' : 'picture'}</span>
+                        <button
+                          onClick={() => handleFlip('flipX')}
+                          className={`w-9 h-9 flex items-center justify-center rounded-full border border-gray-200 transition-colors duration-200 ${
+                            flipTarget.flipX ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                          }`}
+                          aria-label="Flip left to right"
+                        >
+                          <FlipHorizontal2 className="size-4" />
+                        </button>
+                        <button
+                          onClick={() => handleFlip('flipY')}
+                          className={`w-9 h-9 flex items-center justify-center rounded-full border border-gray-200 transition-colors duration-200 ${
+                            flipTarget.flipY ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                          }`}
+                          aria-label="Flip top to bottom"
+                        >
+                          <FlipVertical2 className="size-4" />
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex flex-wrap justify-center mt-3 gap-2">
+                      <button
+                        onClick={handleRotationSnapToggle}
+                        className={`text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+                          rotationSnap ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                        }`}
+                      >
+                        Snap rotation to 90°
+                      </button>
+                      <button
+                        onClick={handlePinToPaperToggle}
+                        className={`text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+                          pinToPaper ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                        }`}
+                      >
+                        Pin to paper
+                      </button>
+                      <button
+                        onClick={handleTransformPanelOpen}
+                        className="text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 text-black hover:bg-gray-100"
+                      >
+                        Precise
+                      </button>
+                      <button
+                        onClick={() => setShowMarkers(true)}
+                        className={`text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+                          markerFit ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                        }`}
+                      >
+                        Markers
+                      </button>
                     </div>
+                    {(isPictureMoveActive || isCornerPinActive) && selectedLayer?.locked && (
+                      <div className="text-center text-sm text-gray-500 mt-2">
+                        {selectedLayer.name} is locked
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </>
           )}
 
-          {/* Eye Button (shown only in hideMode) */}
-          {hideMode && (
+          <ReferenceLibrary
+            open={showLibrary}
+            onOpenChange={setShowLibrary}
+            images={libraryImages}
+            activeImageId={libraryMode === 'replace' ? selectedLayer?.imageId ?? '' : ''}
+            onSelect={handleSelectImage}
+            onRename={handleRenameImage}
+            onDelete={handleDeleteImage}
+          />
+
+          <CameraSettings
+            open={showCameraSettings}
+            onOpenChange={setShowCameraSettings}
+            devices={cameraDevices}
+            activeDeviceId={activeDeviceId}
+            preferences={cameraPreferences}
+            features={cameraFeatures}
+            torchOn={torchOn}
+            zoom={hardwareZoom}
+            locks={cameraLocks}
+            tapToFocus={tapToFocus}
+            onPreferencesChange={handleCameraPreferencesChange}
+            onTorchChange={handleTorchChange}
+            onZoomChange={handleHardwareZoomChange}
+            onLocksChange={handleCameraLocksChange}
+            onTapToFocusChange={handleTapToFocusChange}
+          />
+
+          <SnapshotGallery
+            open={showGallery}
+            onOpenChange={setShowGallery}
+            snapshots={snapshots}
+            capturing={isCapturing}
+            canCaptureOverlay={layers.some(layer => layer.visible && loadedImages[layer.imageId])}
+            onCapture={handleCapture}
+            onDelete={handleDeleteSnapshot}
+          />
+
+          <TimelapsePanel
+            open={showTimelapse}
+            onOpenChange={setShowTimelapse}
+            supported={!!pickTimelapseMimeType()}
+            isRecording={timelapse.isRecording}
+            frameCount={timelapse.frameCount}
+            interval={timelapseInterval}
+            withOverlay={timelapseWithOverlay}
+            saving={isSavingTimelapse}
+            recordings={recordings}
+            onIntervalChange={setTimelapseInterval}
+            onWithOverlayChange={setTimelapseWithOverlay}
+            onStart={handleTimelapseStart}
+            onStop={handleTimelapseStop}
+            onDelete={handleDeleteRecording}
+          />
+
+          <ProjectPanel
+            open={showProject}
+            onOpenChange={setShowProject}
+            layerCount={layers.length}
+            exportFile={projectExport}
+            busy={projectBusy}
+            error={projectError}
+            onExport={handleProjectExport}
+            onImport={handleProjectImport}
+          />
+
+          {/* Pin to paper status, kept on screen in Hide mode too so a lost track is noticed */}
+          {pinToPaper && (
+            <div
+              className={`fixed ${hideMode ? 'top-4 left-20 pointer-events-none' : 'top-16 left-4'} z-50 flex items-center bg-white/90 backdrop-blur-sm rounded-full pl-3 pr-1 py-1 text-sm font-medium text-black shadow-lg`}
+            >
+              <span
+                className={`w-2 h-2 rounded-full mr-2 ${
+                  tracking.status === 'tracking' ? 'bg-green-500'
+                    : tracking.status === 'lost' || tracking.status === 'unsupported' ? 'bg-red-600 animate-pulse'
+                      : 'bg-gray-400'
+                }`}
+              ></span>
+              <span className="mr-2">
+                {tracking.status === 'tracking' && 'Pinned to paper'}
+                {tracking.status === 'starting' && 'Finding the paper…'}
+                {tracking.status === 'lost' && 'Tracking lost - check the alignment'}
+                {tracking.status === 'unsupported' && 'Pinning is not supported in this browser'}
+                {tracking.status === 'off' && 'Pinning paused while you move'}
+              </span>
+              {!hideMode && tracking.status === 'lost' && (
+                <button
+                  onClick={tracking.reanchor}
+                  className="font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100"
+                >
+                  Pin here
+                </button>
+              )}
+              {!hideMode && (
+                <button
+                  onClick={() => setPinToPaper(false)}
+                  aria-label="Stop pinning to paper"
+                  className="font-medium px-2 py-1 rounded-full text-gray-500 hover:bg-gray-100"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Marker auto-fit status, also kept on screen in Hide mode */}
+          {markerFit && (
+            <div
+              className={`fixed ${hideMode ? 'top-4 left-20 pointer-events-none' : 'top-16 left-4'} z-50 flex items-center bg-white/90 backdrop-blur-sm rounded-full pl-3 pr-1 py-1 text-sm font-medium text-black shadow-lg`}
+            >
+              <span
+                className={`w-2 h-2 rounded-full mr-2 ${
+                  markers.status === 'found' ? 'bg-green-500'
+                    : markers.status === 'unsupported' || markers.status === 'error' ? 'bg-red-600 animate-pulse'
+                      : 'bg-gray-400'
+                }`}
+              ></span>
+              <span className="mr-2">
+                {markers.status === 'found' && 'Fitted to markers'}
+                {markers.status === 'searching' && `Markers ${markers.found} of 4`}
+                {markers.status === 'unsupported' && 'Markers are not supported in this browser'}
+                {markers.status === 'error' && 'Marker detection stopped - turn auto-fit off and on'}
+                {markers.status === 'off' && 'Auto-fit paused while you move'}
+              </span>
+              {!hideMode && (
+                <button
+                  onClick={() => handleMarkerFitChange(false)}
+                  aria-label="Stop fitting to markers"
+                  className="font-medium px-2 py-1 rounded-full text-gray-500 hover:bg-gray-100"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Recording indicator, kept on screen in Hide mode too */}
+          {timelapse.isRecording && (
             <button
-              onClick={handleShow}
-              className="fixed top-4 left-4 z-50 w-10 h-10 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-black hover:bg-white transition-colors duration-200 shadow-lg"
+              onClick={handleTimelapseOpen}
+              className={`fixed ${hideMode ? 'top-4 pointer-events-none' : 'top-16'} right-4 z-50 flex items-center bg-white/90 backdrop-blur-sm rounded-full px-3 py-1 text-sm font-medium text-black shadow-lg`}
             >
-              👁️
+              <span className="w-2 h-2 bg-red-600 rounded-full mr-2 animate-pulse"></span>
+              REC · {timelapse.frameCount}
             </button>
           )}
 
+          <LayerPanel
+            open={showLayerPanel}
+            onOpenChange={setShowLayerPanel}
+            layers={layers}
+            loadedImages={loadedImages}
+            selectedLayerId={selectedLayerId}
+            onSelect={setSelectedLayerId}
+            onToggleVisible={handleToggleLayerVisible}
+            onToggleLocked={handleToggleLayerLocked}
+            onMove={handleMoveLayer}
+            onOpacityChange={(id, opacity) => updateLayer(id, { opacity })}
+            onEditStart={history.beginEdit}
+            onEditEnd={history.endEdit}
+            onRemove={handleRemoveLayer}
+            onAdd={() => openLibrary('add')}
+            onLineArt={handleLineArtOpen}
+            onAdjust={handleAdjustmentsOpen}
+          />
+
+          <AdjustmentsPanel
+            open={showAdjustments}
+            onOpenChange={handleAdjustmentsOpenChange}
+            layerName={selectedLayer?.name ?? ''}
+            imageUrl={selectedLayer ? loadedImages[selectedLayer.imageId]?.url : undefined}
+            adjustments={selectedLayer?.adjustments ?? DEFAULT_ADJUSTMENTS}
+            onChange={handleAdjustmentsChange}
+            onReset={() => handleAdjustmentsChange(DEFAULT_ADJUSTMENTS)}
+          />
+
+          <MeasurePanel
+            open={showMeasure}
+            onOpenChange={setShowMeasure}
+            settings={measureSettings}
+            onChange={handleMeasureChange}
+            onCalibrate={handleCalibrateStart}
+            layerName={selectedLayer?.name}
+            layerSizeCm={selectedLayerSizeCm}
+            onLayerWidthChange={handleLayerWidthChange}
+            error={measureError}
+          />
+
+          <ShortcutHelp open={showShortcuts} onOpenChange={setShowShortcuts} />
+
+          <MoreMenu
+            open={showMoreMenu}
+            onOpenChange={setShowMoreMenu}
+            items={[
+              { label: 'Camera settings', icon: Camera, onSelect: handleCameraSettingsOpen },
+              { label: 'Snapshots', icon: Aperture, onSelect: handleGalleryOpen },
+              { label: 'Time-lapse', icon: Video, onSelect: handleTimelapseOpen },
+              { label: 'Measure', icon: Ruler, onSelect: handleMeasureOpen },
+              { label: 'Project', icon: FolderOpen, onSelect: handleProjectOpen },
+              { label: 'Library', icon: Library, onSelect: () => openLibrary('replace') },
+              ...(layers.length > 0 ? [{ label: 'Clear', icon: Trash2, onSelect: handleClearImage, destructive: true }] : []),
+            ]}
+          />
+
+          <TransformPanel
+            open={showTransformPanel}
+            onOpenChange={setShowTransformPanel}
+            target={transformTarget}
+            onTargetChange={setTransformTarget}
+            transform={transformTarget === 'camera' ? cameraTransform : selectedImage ? selectedLayer.transform : null}
+            notice={transformTarget === 'picture' && !selectedImage
+              ? 'Add a picture to position it.'
+              : transformTarget === 'picture' && selectedLayer?.locked ? `${selectedLayer.name} is locked.` : ''}
+            onChange={handlePreciseTransform}
+            onFit={handlePreciseFit}
+            onCentre={handlePreciseCentre}
+            onReset={handlePreciseReset}
+          />
+
+          <MarkerPanel
+            open={showMarkers}
+            onOpenChange={setShowMarkers}
+            paper={markerPaper}
+            onPaperChange={handleMarkerPaperChange}
+            autoFit={markerFit}
+            onAutoFitChange={handleMarkerFitChange}
+            notice={!selectedImage
+              ? 'Add a picture to fit it to the paper.'
+              : selectedLayer?.locked ? `${selectedLayer.name} is locked and won't be moved.` : ''}
+          />
+
+          <LineArtPanel
+            open={showLineArt}
+            onOpenChange={setShowLineArt}
+            layerName={selectedLayer?.name ?? ''}
+            originalUrl={selectedLayer ? loadedImages[selectedLayer.imageId]?.url : undefined}
+            processedUrl={selectedLayer ? loadedImages[selectedLayer.imageId]?.processedUrl : undefined}
+            initialOptions={lineArtOptions}
+            showProcessed={selectedLayer?.showProcessed ?? false}
+            processing={isProcessingLineArt}
+            onShowProcessedChange={(showProcessed) => selectedLayer && updateLayer(selectedLayer.id, { showProcessed })}
+            onGenerate={handleGenerateLineArt}
+            onDiscard={handleDiscardLineArt}
+          />
+
+          {/* Focus ring where the last tap-to-focus landed */}
+          {focusRing && (
+            <div
+              className="fixed z-50 w-16 h-16 -ml-8 -mt-8 rounded-full border-2 border-yellow-300 shadow pointer-events-none animate-pulse"
+              style={{ left: focusRing.x, top: focusRing.y }}
+            />
+          )}
+
+          {/* Tracing lock: a shield swallows every touch, only a long press on the eye unlocks */}
+          {hideMode && (
+            <>
+              <div
+                className="fixed inset-0 z-40 touch-none select-none"
+                onContextMenu={(e) => e.preventDefault()}
+              />
+              <UnlockButton onUnlock={handleShow} notice={wakeLock.supported && !wakeLock.failed ? '' : 'Screen may sleep'} />
+            </>
+          )}
+
           {/* Camera Feed & Overlay (using smart positioning) */}
           <div 
-            className={`fixed ${hideMode ? 'inset-0' : 'top-14 bottom-14 left-0 right-0'} w-full h-full`}
+            ref={stageRef}
+            className={`fixed ${hideMode ? 'inset-0' : 'top-14 bottom-14 left-0 right-0'} w-full h-full touch-none`}
             style={{
-              transform: `translate(${cameraTransform.x}px, ${cameraTransform.y}px) scale(${cameraTransform.scale})`,
-              transformOrigin: 'center center'
+              transform: toCssTransform(cameraTransform),
+              transformOrigin: 'center center',
+              cursor: (isPictureMoveActive && !selectedLayer?.locked) || isCameraMoveActive ? 'grab' : 'default',
             }}
           >
             <video
@@ -617,33 +2432,108 @@ const App: React.FC = () => {
               playsInline
               muted
               onCanPlay={handleCanPlay}
-              onTouchStart={handleTouchStart}
-              onTouchMove={handleTouchMove}
-              onTouchEnd={handleTouchEnd}
-              onTouchCancel={handleTouchEnd}
+              onLoadedMetadata={handleLoadedMetadata}
+              onClick={handleVideoTap}
               className="w-full h-full object-cover z-0"
             />
-            {overlayImage && (
-              <div
-                onPointerDown={handlePointerDown}
-                onPointerMove={handlePointerMove}
-                onPointerUp={handlePointerUp}
-                onPointerCancel={handlePointerUp}
-                onTouchStart={handleTouchStart}
-                onTouchMove={handleTouchMove}
-                onTouchEnd={handleTouchEnd}
-                onTouchCancel={handleTouchEnd}
-                className="absolute inset-0 w-full h-full touch-none z-10"
-                style={{
-                  transform: `translate(${imagePosition.x}px, ${imagePosition.y}px) scale(${imagePosition.scale})`,
-                  opacity: overlayOpacity,
-                  backgroundImage: `url(${overlayImage})`,
-                  backgroundSize: 'contain',
-                  backgroundRepeat: 'no-repeat',
-                  backgroundPosition: 'center',
-                  cursor: isPictureMoveActive ? 'grab' : 'default',
-                }}
-              />
+            {/* Overlay layers, bottom to top; gestures act on the selected layer */}
+            {layers.map((layer, index) => {
+              const image = loadedImages[layer.imageId];
+              if (!layer.visible || !image) return null;
+
+              // Each layer box is the image fitted into the stage, so its corners are the image's corners
+              const box = fitLayerBox(stageSize.width, stageSize.height, image.width, image.height);
+              const showCornerPins = isCornerPinActive && layer.id === selectedLayerId && !layer.locked;
+              const corners = layer.transform.corners;
+              const imageUrl = layer.showProcessed && image.processedUrl ? image.processedUrl : image.url;
+              const tintFilterId = `layer-tint-${layer.id}`;
+
+              return (
+                <div
+                  key={layer.id}
+                  ref={(element) => { layerElements.current[layer.id] = element; }}
+                  className="absolute pointer-events-none"
+                  style={{
+                    zIndex: 10 + index,
+                    left: box.left,
+                    top: box.top,
+                    width: box.width,
+                    height: box.height,
+                    transform: toCssTransform(layer.transform),
+                    // On the layer box: it is the element that composites with the video
+                    mixBlendMode: layer.adjustments.blendMode,
+                  }}
+                >
+                  {layer.adjustments.tint && <TintFilter id={tintFilterId} color={layer.adjustments.tint} />}
+                  <div
+                    className="absolute inset-0"
+                    style={{
+                      opacity: layer.opacity,
+                      filter: toCssFilter(layer.adjustments, tintFilterId),
+                      backgroundImage: `url(${imageUrl})`,
+                      backgroundSize: '100% 100%',
+                      transformOrigin: '0 0',
+                      transform: corners ? toCssMatrix3d(corners, box.width, box.height) : undefined,
+                    }}
+                  />
+                  {/* Reference grid follows the selected layer, warp included, at full strength */}
+                  {gridSettings.showOnImage && layer.id === selectedLayerId && (
+                    <div
+                      className="absolute inset-0"
+                      style={{
+                        transformOrigin: '0 0',
+                        transform: corners ? toCssMatrix3d(corners, box.width, box.height) : undefined,
+                      }}
+                    >
+                      <GridOverlay
+                        settings={gridSettings}
+                        width={box.width}
+                        height={box.height}
+                        scale={layer.transform.scale * cameraTransform.scale}
+                      />
+                    </div>
+                  )}
+                  {showCornerPins && (corners ?? createDefaultQuad()).map((corner, cornerIndex) => (
+                    <div
+                      key={cornerIndex}
+                      onPointerDown={(e) => handleCornerPointerDown(e, cornerIndex)}
+                      onPointerMove={(e) => handleCornerPointerMove(e, box)}
+                      onPointerUp={handleCornerPointerUp}
+                      onPointerCancel={handleCornerPointerUp}
+                      className="absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 border-white bg-blue-500/70 shadow-lg pointer-events-auto touch-none cursor-move"
+                      style={{
+                        left: corner.x * box.width,
+                        top: corner.y * box.height,
+                        // Keep pins the same size on screen whatever the zoom
+                        transform: `scale(${1 / (layer.transform.scale * cameraTransform.scale)})`,
+                      }}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+            {/* Camera grid sits above the layers and moves with the camera view */}
+            {gridSettings.showOnCamera && (
+              <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 10 + layers.length }}>
+                <GridOverlay
+                  settings={gridSettings}
+                  width={stageSize.width}
+                  height={stageSize.height}
+                  scale={cameraTransform.scale}
+                  dashed
+                />
+              </div>
+            )}
+            {/* Scale bar, in the camera view so it always matches the paper */}
+            {measureSettings.showScaleBar && pixelsPerCm && (
+              <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 11 + layers.length }}>
+                <ScaleBar
+                  unit={measureSettings.unit}
+                  pixelsPerCm={pixelsPerCm}
+                  stageWidth={stageSize.width}
+                  scale={cameraTransform.scale}
+                />
+              </div>
             )}
           </div>
         </>
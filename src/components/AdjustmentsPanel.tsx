@@ -0,0 +1,145 @@
+import React from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import TintFilter from '@/components/TintFilter';
+import {
+  BLEND_MODES,
+  isDefaultAdjustments,
+  MAX_ADJUSTMENT,
+  MIN_ADJUSTMENT,
+  TINT_COLORS,
+  toCssFilter,
+  type ImageAdjustments,
+} from '@/lib/adjustments';
+
+interface AdjustmentsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layerName: string;
+  imageUrl?: string;
+  adjustments: ImageAdjustments;
+  onChange: (adjustments: ImageAdjustments) => void;
+  onReset: () => void;
+}
+
+const PREVIEW_TINT_FILTER_ID = 'adjustments-preview-tint';
+
+const pillClass = (active: boolean) =>
+  `text-sm font-medium px-3 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const AmountSlider: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <div>
+    <div className="text-black text-sm mb-1 font-medium">{label}: {Math.round(value * 100)}%</div>
+    <input
+      type="range"
+      min={MIN_ADJUSTMENT}
+      max={MAX_ADJUSTMENT}
+      step={0.05}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({
+  open,
+  onOpenChange,
+  layerName,
+  imageUrl,
+  adjustments,
+  onChange,
+  onReset,
+}) => {
+  const update = (changes: Partial<ImageAdjustments>) => onChange({ ...adjustments, ...changes });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Adjust · {layerName}</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Make the reference stand out against your surface. The image itself is not changed.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          {imageUrl && (
+            <>
+              {adjustments.tint && <TintFilter id={PREVIEW_TINT_FILTER_ID} color={adjustments.tint} />}
+              <div
+                className="h-32 rounded-xl border border-gray-200 bg-gray-50"
+                style={{
+                  backgroundImage: `url(${imageUrl})`,
+                  backgroundSize: 'contain',
+                  backgroundRepeat: 'no-repeat',
+                  backgroundPosition: 'center',
+                  filter: toCssFilter(adjustments, PREVIEW_TINT_FILTER_ID),
+                }}
+              />
+            </>
+          )}
+
+          <AmountSlider label="Contrast" value={adjustments.contrast} onChange={(contrast) => update({ contrast })} />
+          <AmountSlider label="Brightness" value={adjustments.brightness} onChange={(brightness) => update({ brightness })} />
+          <AmountSlider label="Saturation" value={adjustments.saturation} onChange={(saturation) => update({ saturation })} />
+
+          <div className="flex items-center justify-between">
+            <button onClick={() => update({ invert: !adjustments.invert })} className={pillClass(adjustments.invert)}>
+              Invert
+            </button>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-black">Tint</span>
+              <button
+                onClick={() => update({ tint: null })}
+                aria-label="No tint"
+                className={`w-7 h-7 rounded-full border-2 bg-white text-xs text-gray-500 ${
+                  adjustments.tint === null ? 'border-blue-500' : 'border-gray-300'
+                }`}
+              >
+                ⌀
+              </button>
+              {TINT_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => update({ tint: color })}
+                  aria-label={`Tint colour ${color}`}
+                  className={`w-7 h-7 rounded-full border-2 ${
+                    adjustments.tint === color ? 'border-blue-500' : 'border-gray-300'
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-black text-sm mb-1 font-medium">Blend with camera</div>
+            <div className="flex justify-center space-x-2">
+              {BLEND_MODES.map(({ mode, label }) => (
+                <button key={mode} onClick={() => update({ blendMode: mode })} className={pillClass(adjustments.blendMode === mode)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={onReset}
+            disabled={isDefaultAdjustments(adjustments)}
+            className="w-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-black py-2 px-4 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm"
+          >
+            Reset Adjustments
+          </button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AdjustmentsPanel;
@@ -0,0 +1,211 @@
+import React from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  canLock,
+  FRAME_RATES,
+  LOCKABLE_CONTROLS,
+  RESOLUTION_PRESETS,
+  type CameraFeatures,
+  type CameraLocks,
+  type CameraPreferences,
+} from '@/lib/camera';
+
+interface CameraSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  devices: MediaDeviceInfo[];
+  // Device the running stream actually uses (may differ from the preference after a fallback)
+  activeDeviceId: string;
+  preferences: CameraPreferences;
+  features: CameraFeatures;
+  torchOn: boolean;
+  zoom?: number;
+  locks: CameraLocks;
+  tapToFocus: boolean;
+  onPreferencesChange: (preferences: CameraPreferences) => void;
+  onTorchChange: (on: boolean) => void;
+  onZoomChange: (zoom: number) => void;
+  onLocksChange: (locks: CameraLocks) => void;
+  onTapToFocusChange: (enabled: boolean) => void;
+}
+
+const pillClass = (active: boolean) =>
+  `text-sm font-medium px-3 py-1 rounded-full transition-colors duration-200 border border-gray-200 disabled:opacity-30 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const CameraSettings: React.FC<CameraSettingsProps> = ({
+  open,
+  onOpenChange,
+  devices,
+  activeDeviceId,
+  preferences,
+  features,
+  torchOn,
+  zoom,
+  locks,
+  tapToFocus,
+  onPreferencesChange,
+  onTorchChange,
+  onZoomChange,
+  onLocksChange,
+  onTapToFocusChange,
+}) => {
+  const update = (changes: Partial<CameraPreferences>) => onPreferencesChange({ ...preferences, ...changes });
+  const lockable = LOCKABLE_CONTROLS.filter(({ control }) => canLock(features, control));
+  const allLocked = lockable.length > 0 && lockable.every(({ control }) => locks[control]);
+
+  // Lock or unlock every control the camera supports
+  const handleLockAll = () => {
+    const next = { ...locks };
+    lockable.forEach(({ control }) => {
+      next[control] = !allLocked;
+    });
+    onLocksChange(next);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Camera</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Options the current camera doesn't support are greyed out.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          <div>
+            <div className="text-black text-sm mb-2 font-medium">Device</div>
+            <div className="space-y-1">
+              {devices.map((device, index) => (
+                <button
+                  key={device.deviceId || index}
+                  onClick={() => update({ deviceId: device.deviceId })}
+                  className={`w-full text-left text-sm px-3 py-2 rounded-lg border transition-colors duration-200 ${
+                    device.deviceId === activeDeviceId
+                      ? 'border-blue-500 bg-blue-50 text-blue-600'
+                      : 'border-gray-200 text-black hover:bg-gray-100'
+                  }`}
+                >
+                  {device.label || `Camera ${index + 1}`}
+                </button>
+              ))}
+              {devices.length === 0 && (
+                <p className="text-sm text-gray-500">No cameras found</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-black text-sm mb-2 font-medium">Resolution</div>
+            <div className="flex flex-wrap gap-2">
+              {RESOLUTION_PRESETS.map(preset => (
+                <button
+                  key={preset.value}
+                  onClick={() => update({ resolution: preset.value })}
+                  disabled={!!preset.width && !!features.maxWidth && preset.width > features.maxWidth}
+                  className={pillClass(preferences.resolution === preset.value)}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-black text-sm mb-2 font-medium">Frame rate</div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => update({ frameRate: 0 })} className={pillClass(preferences.frameRate === 0)}>
+                Auto
+              </button>
+              {FRAME_RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => update({ frameRate: rate })}
+                  disabled={!!features.maxFrameRate && rate > features.maxFrameRate}
+                  className={pillClass(preferences.frameRate === rate)}
+                >
+                  {rate} fps
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-black text-sm font-medium">Torch</span>
+            <button
+              onClick={() => onTorchChange(!torchOn)}
+              disabled={!features.torch}
+              className={pillClass(torchOn)}
+            >
+              {features.torch ? (torchOn ? 'On' : 'Off') : 'Not available'}
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-black text-sm font-medium">Steady tracing</span>
+              <button onClick={handleLockAll} disabled={lockable.length === 0} className={pillClass(allLocked)}>
+                {allLocked ? 'Unlock all' : 'Lock all'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Locked controls stop the camera refocusing and re-exposing when your hand moves through the frame.
+            </p>
+            <div className="space-y-2">
+              {LOCKABLE_CONTROLS.map(({ control, label }) => (
+                <div key={control} className="flex items-center justify-between">
+                  <span className={`text-sm ${canLock(features, control) ? 'text-black' : 'text-gray-400'}`}>{label}</span>
+                  {canLock(features, control) ? (
+                    <button
+                      onClick={() => onLocksChange({ ...locks, [control]: !locks[control] })}
+                      className={pillClass(locks[control])}
+                    >
+                      {locks[control] ? 'Locked' : 'Auto'}
+                    </button>
+                  ) : (
+                    <span className="text-sm text-gray-400">Not supported</span>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <span className={`text-sm ${features.pointsOfInterest ? 'text-black' : 'text-gray-400'}`}>
+                  Tap to focus
+                </span>
+                {features.pointsOfInterest ? (
+                  <button onClick={() => onTapToFocusChange(!tapToFocus)} className={pillClass(tapToFocus)}>
+                    {tapToFocus ? 'On' : 'Off'}
+                  </button>
+                ) : (
+                  <span className="text-sm text-gray-400">Not supported</span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-black text-sm mb-1 font-medium">
+              Hardware zoom{features.zoom && zoom !== undefined ? `: ${zoom.toFixed(1)}×` : ''}
+            </div>
+            {features.zoom ? (
+              <input
+                type="range"
+                min={features.zoom.min}
+                max={features.zoom.max}
+                step={features.zoom.step}
+                value={zoom ?? features.zoom.min}
+                onChange={(e) => onZoomChange(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            ) : (
+              <p className="text-sm text-gray-500">Not available on this camera - use pinch zoom instead</p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CameraSettings;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { GRID_COLORS, MAX_GRID_CELLS, type GridSettings } from '@/lib/grid';
+
+interface GridControlsProps {
+  settings: GridSettings;
+  onChange: (settings: GridSettings) => void;
+}
+
+const toggleClass = (active: boolean) =>
+  `text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const stepperButtonClass =
+  'w-8 h-8 rounded-lg border border-gray-200 text-black font-medium hover:bg-gray-100 disabled:opacity-30';
+
+const Stepper: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  onChange,
+}) => (
+  <div className="flex items-center space-x-2">
+    <span className="text-sm text-black w-16">{label}</span>
+    <button onClick={() => onChange(value - 1)} disabled={value <= 1} className={stepperButtonClass}>
+      −
+    </button>
+    <span className="text-sm text-black w-6 text-center">{value}</span>
+    <button onClick={() => onChange(value + 1)} disabled={value >= MAX_GRID_CELLS} className={stepperButtonClass}>
+      +
+    </button>
+  </div>
+);
+
+const GridControls: React.FC<GridControlsProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<GridSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center space-x-2">
+        <button onClick={() => update({ showOnImage: !settings.showOnImage })} className={toggleClass(settings.showOnImage)}>
+          On picture
+        </button>
+        <button onClick={() => update({ showOnCamera: !settings.showOnCamera })} className={toggleClass(settings.showOnCamera)}>
+          On camera
+        </button>
+        <button onClick={() => update({ labels: !settings.labels })} className={toggleClass(settings.labels)}>
+          Labels
+        </button>
+      </div>
+
+      <div className="flex justify-around">
+        <Stepper label="Rows" value={settings.rows} onChange={(rows) => update({ rows })} />
+        <Stepper label="Columns" value={settings.columns} onChange={(columns) => update({ columns })} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {GRID_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => update({ color })}
+              aria-label={`Grid colour ${color}`}
+              className={`w-7 h-7 rounded-full border-2 ${
+                settings.color === color ? 'border-blue-500' : 'border-gray-300'
+              }`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-black">Line</span>
+          <input
+            type="range"
+            min={0.5}
+            max={6}
+            step={0.5}
+            value={settings.thickness}
+            onChange={(e) => update({ thickness: parseFloat(e.target.value) })}
+            className="w-24 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GridControls;
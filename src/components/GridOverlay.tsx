@@ -0,0 +1,79 @@
+import React from 'react';
+import { cellLabel, type GridSettings } from '@/lib/grid';
+
+interface GridOverlayProps {
+  settings: GridSettings;
+  // Size of the box the grid covers, in its own (untransformed) pixels
+  width: number;
+  height: number;
+  // Combined scale of the transforms above the grid, so labels stay readable
+  scale?: number;
+  dashed?: boolean;
+}
+
+const GridOverlay: React.FC<GridOverlayProps> = ({ settings, width, height, scale = 1, dashed = false }) => {
+  if (!width || !height) return null;
+
+  const { rows, columns, color, thickness, labels } = settings;
+  const cellWidth = width / columns;
+  const cellHeight = height / rows;
+  const fontSize = Math.max(8, Math.min(cellWidth, cellHeight) * 0.18, 11 / scale);
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <g
+        stroke={color}
+        strokeWidth={thickness}
+        strokeDasharray={dashed ? '6 4' : undefined}
+        vectorEffect="non-scaling-stroke"
+        fill="none"
+      >
+        <rect x={0} y={0} width={width} height={height} vectorEffect="non-scaling-stroke" />
+        {Array.from({ length: columns - 1 }, (_, i) => (
+          <line
+            key={`c${i}`}
+            x1={cellWidth * (i + 1)}
+            y1={0}
+            x2={cellWidth * (i + 1)}
+            y2={height}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {Array.from({ length: rows - 1 }, (_, i) => (
+          <line
+            key={`r${i}`}
+            x1={0}
+            y1={cellHeight * (i + 1)}
+            x2={width}
+            y2={cellHeight * (i + 1)}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </g>
+      {labels && (
+        <g fill={color} fontSize={fontSize} fontFamily="system-ui, sans-serif" fontWeight={600}>
+          {Array.from({ length: rows * columns }, (_, i) => {
+            const row = Math.floor(i / columns);
+            const column = i % columns;
+            return (
+              <text
+                key={i}
+                x={column * cellWidth + fontSize * 0.35}
+                y={row * cellHeight + fontSize * 1.1}
+              >
+                {cellLabel(row, column)}
+              </text>
+            );
+          })}
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default GridOverlay;
@@ -0,0 +1,193 @@
+import React from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Lock, LockOpen, PenTool, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { LoadedImage } from '@/hooks/useImageUrls';
+import type { OverlayLayer } from '@/lib/layers';
+
+interface LayerPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layers: OverlayLayer[];
+  loadedImages: Record<string, LoadedImage>;
+  selectedLayerId: string;
+  onSelect: (id: string) => void;
+  onToggleVisible: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onMove: (id: string, direction: 1 | -1) => void;
+  onOpacityChange: (id: string, opacity: number) => void;
+  // Bracket an opacity drag so it becomes a single undo step
+  onEditStart: () => void;
+  onEditEnd: () => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+  // Open line art processing for the selected layer
+  onLineArt: () => void;
+  // Open contrast, tint and blend adjustments for the selected layer
+  onAdjust: () => void;
+}
+
+const iconButtonClass =
+  'w-8 h-8 flex items-center justify-center rounded-lg text-gray-700 hover:bg-gray-100 transition-colors duration-200 disabled:opacity-30 disabled:hover:bg-transparent';
+
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  open,
+  onOpenChange,
+  layers,
+  loadedImages,
+  selectedLayerId,
+  onSelect,
+  onToggleVisible,
+  onToggleLocked,
+  onMove,
+  onOpacityChange,
+  onEditStart,
+  onEditEnd,
+  onRemove,
+  onAdd,
+  onLineArt,
+  onAdjust,
+}) => {
+  // Top layer first, the way layer stacks are usually listed
+  const orderedLayers = [...layers].reverse();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="bg-white">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Layers</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Move → Picture moves the selected layer. Locked layers stay put.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-2">
+          {orderedLayers.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No layers yet. Add an image to start.</p>
+          )}
+
+          {orderedLayers.map((layer, displayIndex) => {
+            const isSelected = layer.id === selectedLayerId;
+            const isTop = displayIndex === 0;
+            const isBottom = displayIndex === orderedLayers.length - 1;
+
+            return (
+              <div
+                key={layer.id}
+                className={`rounded-xl border p-2 transition-colors duration-200 ${
+                  isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => onSelect(layer.id)}
+                    className="flex items-center flex-1 min-w-0 space-x-2 text-left"
+                  >
+                    <div
+                      className="w-10 h-10 shrink-0 rounded-lg bg-gray-100 border border-gray-200"
+                      style={{
+                        backgroundImage: loadedImages[layer.imageId] ? `url(${loadedImages[layer.imageId].url})` : undefined,
+                        backgroundSize: 'cover',
+                        backgroundPosition: 'center',
+                      }}
+                    />
+                    <span className={`text-sm truncate ${layer.visible ? 'text-black' : 'text-gray-400'}`}>
+                      {layer.name}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => onToggleVisible(layer.id)}
+                    className={iconButtonClass}
+                    aria-label={layer.visible ? 'Hide layer' : 'Show layer'}
+                  >
+                    {layer.visible ? <Eye className="size-4" /> : <EyeOff className="size-4" />}
+                  </button>
+                  <button
+                    onClick={() => onToggleLocked(layer.id)}
+                    className={iconButtonClass}
+                    aria-label={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                  >
+                    {layer.locked ? <Lock className="size-4" /> : <LockOpen className="size-4" />}
+                  </button>
+                </div>
+
+                {isSelected && (
+                  <div className="mt-2 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-gray-600 w-20">
+                        Opacity {Math.round(layer.opacity * 100)}%
+                      </span>
+                      <input
+                        type="range"
+                        min={0.1}
+                        max={1}
+                        step={0.01}
+                        value={layer.opacity}
+                        onChange={(e) => onOpacityChange(layer.id, parseFloat(e.target.value))}
+                        onPointerDown={onEditStart}
+                        onPointerUp={onEditEnd}
+                        onKeyDown={onEditStart}
+                        onKeyUp={onEditEnd}
+                        className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                      />
+                    </div>
+                    <div className="flex items-center justify-end space-x-1">
+                      <button
+                        onClick={onLineArt}
+                        className={`${iconButtonClass} w-auto px-2 text-xs font-medium`}
+                      >
+                        <PenTool className="size-4 mr-1" />
+                        {layer.showProcessed ? 'Line art on' : 'Line art'}
+                      </button>
+                      <button
+                        onClick={onAdjust}
+                        className={`${iconButtonClass} mr-auto w-auto px-2 text-xs font-medium`}
+                      >
+                        <SlidersHorizontal className="size-4 mr-1" />
+                        Adjust
+                      </button>
+                      <button
+                        onClick={() => onMove(layer.id, 1)}
+                        disabled={isTop}
+                        className={iconButtonClass}
+                        aria-label="Move layer up"
+                      >
+                        <ChevronUp className="size-4" />
+                      </button>
+                      <button
+                        onClick={() => onMove(layer.id, -1)}
+                        disabled={isBottom}
+                        className={iconButtonClass}
+                        aria-label="Move layer down"
+                      >
+                        <ChevronDown className="size-4" />
+                      </button>
+                      <button
+                        onClick={() => onRemove(layer.id)}
+                        className={`${iconButtonClass} text-red-600 hover:bg-red-50`}
+                        aria-label="Remove layer"
+                      >
+                        <Trash2 className="size-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4">
+          <button
+            onClick={onAdd}
+            className="w-full flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-black px-4 py-2 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm"
+          >
+            <Plus className="size-4 mr-1" />
+            Add Layer
+          </button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { DEFAULT_LINE_ART_OPTIONS, LINE_ART_MODES, type LineArtOptions } from '@/lib/lineArt';
+
+interface LineArtPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layerName: string;
+  originalUrl?: string;
+  processedUrl?: string;
+  // Options the current line art was made with, used as the starting point
+  initialOptions?: LineArtOptions;
+  showProcessed: boolean;
+  processing: boolean;
+  onShowProcessedChange: (showProcessed: boolean) => void;
+  onGenerate: (options: LineArtOptions) => void;
+  onDiscard: () => void;
+}
+
+const LineArtPanel: React.FC<LineArtPanelProps> = ({
+  open,
+  onOpenChange,
+  layerName,
+  originalUrl,
+  processedUrl,
+  initialOptions,
+  showProcessed,
+  processing,
+  onShowProcessedChange,
+  onGenerate,
+  onDiscard,
+}) => {
+  const [options, setOptions] = useState<LineArtOptions>(initialOptions ?? DEFAULT_LINE_ART_OPTIONS);
+
+  // Start from the saved options whenever the panel opens
+  useEffect(() => {
+    if (open) {
+      setOptions(initialOptions ?? DEFAULT_LINE_ART_OPTIONS);
+    }
+  }, [open, initialOptions]);
+
+  const previewUrl = showProcessed && processedUrl ? processedUrl : originalUrl;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Line Art · {layerName}</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Turns the reference into outlines on this device. The original is kept.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          {previewUrl && (
+            <div
+              className="h-40 rounded-xl border border-gray-200 bg-gray-50"
+              style={{
+                backgroundImage: `url(${previewUrl})`,
+                backgroundSize: 'contain',
+                backgroundRepeat: 'no-repeat',
+                backgroundPosition: 'center',
+              }}
+            />
+          )}
+
+          <div className="flex justify-center space-x-2">
+            {LINE_ART_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setOptions(prev => ({ ...prev, mode }))}
+                className={`text-sm font-medium px-3 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+                  options.mode === mode ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="text-black text-sm mb-1 font-medium">
+              {options.mode === 'posterize' ? 'Tones' : 'Sensitivity'}: {Math.round(options.sensitivity * 100)}%
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={options.sensitivity}
+              onChange={(e) => setOptions(prev => ({ ...prev, sensitivity: parseFloat(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+
+          {options.mode !== 'posterize' && (
+            <div>
+              <div className="text-black text-sm mb-1 font-medium">Line thickness: {options.thickness}px</div>
+              <input
+                type="range"
+                min={1}
+                max={6}
+                step={1}
+                value={options.thickness}
+                onChange={(e) => setOptions(prev => ({ ...prev, thickness: parseInt(e.target.value, 10) }))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          )}
+
+          <button
+            onClick={() => onGenerate(options)}
+            disabled={processing}
+            className="w-full bg-slate-600 hover:bg-slate-700 disabled:opacity-60 text-white py-3 px-6 rounded-xl font-semibold transition-colors duration-200"
+          >
+            {processing ? 'Processing…' : processedUrl ? 'Regenerate Line Art' : 'Generate Line Art'}
+          </button>
+
+          {processedUrl && (
+            <div className="flex items-center justify-between">
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => onShowProcessedChange(false)}
+                  className={`text-sm font-medium px-3 py-1 rounded-full border border-gray-200 ${
+                    !showProcessed ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                  }`}
+                >
+                  Original
+                </button>
+                <button
+                  onClick={() => onShowProcessedChange(true)}
+                  className={`text-sm font-medium px-3 py-1 rounded-full border border-gray-200 ${
+                    showProcessed ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                  }`}
+                >
+                  Line Art
+                </button>
+              </div>
+              <button
+                onClick={onDiscard}
+                className="text-sm text-red-600 hover:text-red-800 font-medium"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LineArtPanel;
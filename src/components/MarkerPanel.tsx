@@ -0,0 +1,70 @@
+import React from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { createMarkerSheet, PAPER_SIZES, type PaperSize } from '@/lib/markers';
+import { downloadBlob } from '@/lib/share';
+
+interface MarkerPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  paper: PaperSize;
+  onPaperChange: (paper: PaperSize) => void;
+  autoFit: boolean;
+  onAutoFitChange: (autoFit: boolean) => void;
+  // Why auto-fit can't place the selected layer right now, if it can't
+  notice: string;
+}
+
+const pillClass = (active: boolean) =>
+  `text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const MarkerPanel: React.FC<MarkerPanelProps> = ({
+  open,
+  onOpenChange,
+  paper,
+  onPaperChange,
+  autoFit,
+  onAutoFitChange,
+  notice,
+}) => (
+  <Sheet open={open} onOpenChange={onOpenChange}>
+    <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+      <SheetHeader className="pb-0">
+        <SheetTitle className="text-black">Corner Markers</SheetTitle>
+        <SheetDescription className="text-gray-500">
+          Print the marker sheet at actual size and draw on it. With all four markers in view, the selected picture is fitted to the paper and follows it when it moves.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="overflow-y-auto px-4 pb-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-2">
+            {(Object.keys(PAPER_SIZES) as PaperSize[]).map(option => (
+              <button key={option} onClick={() => onPaperChange(option)} className={pillClass(paper === option)}>
+                {PAPER_SIZES[option].label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => downloadBlob(createMarkerSheet(paper), `tracecam-markers-${paper}.svg`)}
+            className="bg-gray-100 hover:bg-gray-200 text-black py-1 px-4 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm"
+          >
+            Download Sheet
+          </button>
+        </div>
+
+        <button
+          onClick={() => onAutoFitChange(!autoFit)}
+          className="w-full bg-slate-600 hover:bg-slate-700 text-white py-3 px-6 rounded-xl font-semibold transition-colors duration-200"
+        >
+          {autoFit ? 'Stop Auto-fit' : 'Auto-fit to Markers'}
+        </button>
+
+        {notice && <p className="text-sm text-gray-500">{notice}</p>}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
+
+export default MarkerPanel;
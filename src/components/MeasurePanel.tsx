@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { formatLength, fromCm, LENGTH_UNITS, toCm, type MeasureSettings } from '@/lib/measure';
+
+interface MeasurePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: MeasureSettings;
+  onChange: (settings: MeasureSettings) => void;
+  // Start marking a known length in the camera view
+  onCalibrate: () => void;
+  layerName?: string;
+  // Current size of the selected layer on the paper, when calibrated
+  layerSizeCm: { width: number; height: number } | null;
+  onLayerWidthChange: (widthCm: number) => void;
+  error: string;
+}
+
+const pillClass = (active: boolean) =>
+  `text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-black';
+
+const toInputValue = (cm: number, unit: MeasureSettings['unit']) => String(Number(fromCm(cm, unit).toFixed(2)));
+
+const MeasurePanel: React.FC<MeasurePanelProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  onChange,
+  onCalibrate,
+  layerName,
+  layerSizeCm,
+  onLayerWidthChange,
+  error,
+}) => {
+  const { unit, calibration } = settings;
+  const [width, setWidth] = useState<string>('');
+  const [height, setHeight] = useState<string>('');
+  const layerWidth = layerSizeCm?.width;
+  const layerHeight = layerSizeCm?.height;
+  const aspect = layerWidth && layerHeight ? layerHeight / layerWidth : 1;
+
+  // Start from the layer's current size whenever it (or the unit) changes
+  useEffect(() => {
+    if (!open || !layerWidth || !layerHeight) return;
+    setWidth(toInputValue(layerWidth, unit));
+    setHeight(toInputValue(layerHeight, unit));
+  }, [open, layerWidth, layerHeight, unit]);
+
+  // The aspect ratio is locked: editing one side updates the other
+  const handleWidthChange = (value: string) => {
+    setWidth(value);
+    const parsed = parseFloat(value);
+    if (parsed > 0) setHeight(String(Number((parsed * aspect).toFixed(2))));
+  };
+
+  const handleHeightChange = (value: string) => {
+    setHeight(value);
+    const parsed = parseFloat(value);
+    if (parsed > 0) setWidth(String(Number((parsed / aspect).toFixed(2))));
+  };
+
+  const targetWidth = parseFloat(width);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Measure</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Calibrate against a ruler or the paper edge to size the reference in real units. Calibrate again if you move the phone.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex space-x-2">
+              {LENGTH_UNITS.map(option => (
+                <button key={option} onClick={() => onChange({ ...settings, unit: option })} className={pillClass(unit === option)}>
+                  {option}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => onChange({ ...settings, showScaleBar: !settings.showScaleBar })}
+              disabled={!calibration}
+              className={`${pillClass(settings.showScaleBar)} disabled:opacity-40`}
+            >
+              Scale bar
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-black">
+              {calibration ? 'Calibrated' : 'Not calibrated yet'}
+            </span>
+            {calibration && (
+              <button
+                onClick={() => onChange({ ...settings, calibration: null, showScaleBar: false })}
+                className="text-sm text-red-600 hover:text-red-800 font-medium"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          <button
+            onClick={onCalibrate}
+            className="w-full bg-slate-600 hover:bg-slate-700 text-white py-3 px-6 rounded-xl font-semibold transition-colors duration-200"
+          >
+            {calibration ? 'Calibrate Again' : 'Calibrate'}
+          </button>
+
+          {calibration && layerSizeCm && (
+            <div className="space-y-2">
+              <div className="text-black text-sm font-medium">
+                {layerName}: {formatLength(fromCm(layerSizeCm.width, unit), unit)} × {formatLength(fromCm(layerSizeCm.height, unit), unit)}
+              </div>
+              <div className="flex items-center space-x-2">
+                <label className="flex-1 text-xs text-gray-600">
+                  Width ({unit})
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={width}
+                    onChange={(e) => handleWidthChange(e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+                <span className="pt-4 text-gray-400">×</span>
+                <label className="flex-1 text-xs text-gray-600">
+                  Height ({unit})
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="any"
+                    value={height}
+                    onChange={(e) => handleHeightChange(e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <button
+                onClick={() => onLayerWidthChange(toCm(targetWidth, unit))}
+                disabled={!(targetWidth > 0)}
+                className="w-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-black py-2 px-4 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm"
+              >
+                Set Size
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MeasurePanel;
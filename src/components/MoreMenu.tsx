@@ -0,0 +1,49 @@
+import React from 'react';
+import type { LucideIcon } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+
+export interface MoreMenuItem {
+  label: string;
+  icon: LucideIcon;
+  onSelect: () => void;
+  destructive?: boolean;
+}
+
+interface MoreMenuProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: MoreMenuItem[];
+}
+
+// The top bar's secondary actions on phone widths, where they don't fit in
+// the bar itself
+const MoreMenu: React.FC<MoreMenuProps> = ({ open, onOpenChange, items }) => (
+  <Sheet open={open} onOpenChange={onOpenChange}>
+    <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+      <SheetHeader className="pb-0">
+        <SheetTitle className="text-black">More</SheetTitle>
+        <SheetDescription className="text-gray-500">Tools that don't fit in the top bar on a small screen.</SheetDescription>
+      </SheetHeader>
+
+      <div className="overflow-y-auto px-4 pb-4 space-y-2">
+        {items.map(({ label, icon: Icon, onSelect, destructive }) => (
+          <button
+            key={label}
+            onClick={() => {
+              onOpenChange(false);
+              onSelect();
+            }}
+            className={`w-full flex items-center space-x-3 py-3 px-4 rounded-xl font-medium transition-colors duration-200 border text-sm ${
+              destructive ? 'bg-red-100 hover:bg-red-200 text-red-600 border-red-300' : 'bg-gray-100 hover:bg-gray-200 text-black border-gray-300'
+            }`}
+          >
+            <Icon className="size-4" />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
+
+export default MoreMenu;
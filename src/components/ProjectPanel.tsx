@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { Download, Share2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { PROJECT_EXTENSION, PROJECT_MIME_TYPE } from '@/lib/project';
+import { canShareFile, downloadBlob, shareFile } from '@/lib/share';
+
+interface ProjectPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layerCount: number;
+  // The last exported project, ready to save or share
+  exportFile: File | null;
+  busy: 'export' | 'import' | null;
+  error: string;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const actionButtonClass =
+  'flex items-center justify-center text-sm font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100 transition-colors duration-200';
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  open,
+  onOpenChange,
+  layerCount,
+  exportFile,
+  busy,
+  error,
+  onExport,
+  onImport,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState<boolean>(false);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so picking the same file again still fires onChange
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragOver(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !busy) onImport(file);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Project</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            One file with your layers, their images, the alignment and settings. Use it as a backup or to carry on on another device.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          <div className="space-y-2">
+            <button
+              onClick={onExport}
+              disabled={busy !== null || layerCount === 0}
+              className="w-full bg-slate-600 hover:bg-slate-700 disabled:opacity-60 text-white py-3 px-6 rounded-xl font-semibold transition-colors duration-200"
+            >
+              {busy === 'export' ? 'Exporting…' : 'Export Project'}
+            </button>
+            {layerCount === 0 && (
+              <p className="text-xs text-gray-500 text-center">Add a reference first; there is nothing to export yet.</p>
+            )}
+            {exportFile && (
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500 mr-auto truncate">
+                  {exportFile.name} · {formatSize(exportFile.size)}
+                </span>
+                <button onClick={() => downloadBlob(exportFile, exportFile.name)} className={actionButtonClass}>
+                  <Download className="size-4 mr-1" />
+                  Save
+                </button>
+                {canShareFile(exportFile) && (
+                  <button onClick={() => shareFile(exportFile, 'TraceCam project')} className={actionButtonClass}>
+                    <Share2 className="size-4 mr-1" />
+                    Share
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+            className={`rounded-xl border-2 border-dashed px-4 py-6 text-center space-y-2 transition-colors duration-200 ${
+              dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+            }`}
+          >
+            <p className="text-sm text-black">Drop a .{PROJECT_EXTENSION} file here or</p>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={`.${PROJECT_EXTENSION},${PROJECT_MIME_TYPE}`}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={busy !== null}
+              className="bg-gray-100 hover:bg-gray-200 disabled:opacity-60 text-black px-4 py-2 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm"
+            >
+              {busy === 'import' ? 'Importing…' : 'Choose File'}
+            </button>
+            <p className="text-xs text-gray-500">Importing replaces the current layers. Their images stay in the library.</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-300 text-red-700 rounded-xl px-4 py-3 text-sm">{error}</div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { StoredImage } from '@/lib/imageStore';
+
+interface ReferenceLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  images: StoredImage[];
+  activeImageId: string;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Object URLs for the thumbnails, revoked when the list changes
+const useThumbnailUrls = (images: StoredImage[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const created: Record<string, string> = {};
+    images.forEach(image => {
+      created[image.id] = URL.createObjectURL(image.thumbnail ?? image.working);
+    });
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [images]);
+
+  return urls;
+};
+
+const ReferenceLibrary: React.FC<ReferenceLibraryProps> = ({
+  open,
+  onOpenChange,
+  images,
+  activeImageId,
+  onSelect,
+  onRename,
+  onDelete,
+}) => {
+  const thumbnailUrls = useThumbnailUrls(images);
+  const [editingId, setEditingId] = useState<string>('');
+  const [draftName, setDraftName] = useState<string>('');
+
+  const startRename = (image: StoredImage) => {
+    setEditingId(image.id);
+    setDraftName(image.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) {
+      onRename(editingId, name);
+    }
+    setEditingId('');
+  };
+
+  const handleDelete = (image: StoredImage) => {
+    if (window.confirm(`Delete "${image.name}" from the library?`)) {
+      onDelete(image.id);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[75vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Reference Library</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Images are stored on this device only. Each one remembers its own position and opacity.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4">
+          {images.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No reference images yet.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {images.map(image => (
+                <div key={image.id} className="flex flex-col">
+                  <button
+                    onClick={() => onSelect(image.id)}
+                    className={`aspect-square rounded-xl overflow-hidden border-2 bg-gray-100 transition-colors duration-200 ${
+                      image.id === activeImageId ? 'border-blue-500' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {thumbnailUrls[image.id] && (
+                      <img
+                        src={thumbnailUrls[image.id]}
+                        alt={image.name}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </button>
+
+                  {editingId === image.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId('');
+                      }}
+                      className="mt-1 w-full text-xs text-black border border-gray-300 rounded px-1 py-0.5"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => startRename(image)}
+                      className="mt-1 text-xs text-black truncate text-left"
+                      title="Rename"
+                    >
+                      {image.name}
+                    </button>
+                  )}
+
+                  <button
+                    onClick={() => handleDelete(image)}
+                    className="mt-1 text-xs text-red-600 hover:text-red-800 text-left"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label
+            htmlFor="upload-image"
+            className="mt-4 block text-center bg-gray-100 hover:bg-gray-200 text-black px-4 py-2 rounded-full font-medium transition-colors duration-200 cursor-pointer border border-gray-300 text-sm"
+          >
+            Add Image
+          </label>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReferenceLibrary;
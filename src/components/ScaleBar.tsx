@@ -0,0 +1,63 @@
+import React from 'react';
+import { formatLength, scaleBarLength, toCm, type LengthUnit } from '@/lib/measure';
+
+interface ScaleBarProps {
+  unit: LengthUnit;
+  // Stage pixels per centimetre from the calibration
+  pixelsPerCm: number;
+  // Width of the stage; the bar takes up to half of it
+  stageWidth: number;
+  // Camera zoom above the bar, so the label stays readable
+  scale?: number;
+}
+
+// Ruler showing a round real-world length, drawn in the camera view so it
+// zooms and pans with it and always matches the paper
+const ScaleBar: React.FC<ScaleBarProps> = ({ unit, pixelsPerCm, stageWidth, scale = 1 }) => {
+  const pixelsPerUnit = toCm(1, unit) * pixelsPerCm;
+  const length = scaleBarLength(unit, pixelsPerUnit, stageWidth / 2);
+  const width = length * pixelsPerUnit;
+  // A tick per unit, or per tenth of the bar when that would be too dense
+  const step = length / Math.min(10, Math.max(1, Math.round(length)));
+  const ticks = Array.from({ length: Math.round(length / step) + 1 }, (_, i) => i * step * pixelsPerUnit);
+  const fontSize = 12 / scale;
+
+  return (
+    <svg
+      className="absolute left-4 bottom-4 pointer-events-none overflow-visible"
+      width={width}
+      height={fontSize * 2.5}
+    >
+      <g stroke="#000" strokeWidth={3} vectorEffect="non-scaling-stroke" opacity={0.35}>
+        <line x1={0} y1={fontSize * 2.5} x2={width} y2={fontSize * 2.5} vectorEffect="non-scaling-stroke" />
+      </g>
+      <g stroke="#fff" strokeWidth={1.5} vectorEffect="non-scaling-stroke">
+        <line x1={0} y1={fontSize * 2.5} x2={width} y2={fontSize * 2.5} vectorEffect="non-scaling-stroke" />
+        {ticks.map((x, i) => (
+          <line
+            key={i}
+            x1={x}
+            y1={fontSize * 2.5}
+            x2={x}
+            y2={i === 0 || i === ticks.length - 1 ? fontSize * 1.4 : fontSize * 1.9}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </g>
+      <text
+        x={width / 2}
+        y={fontSize * 1.1}
+        fill="#fff"
+        fontSize={fontSize}
+        fontFamily="system-ui, sans-serif"
+        fontWeight={600}
+        textAnchor="middle"
+        style={{ paintOrder: 'stroke', stroke: 'rgba(0, 0, 0, 0.5)', strokeWidth: 3 / scale }}
+      >
+        {formatLength(length, unit)}
+      </text>
+    </svg>
+  );
+};
+
+export default ScaleBar;
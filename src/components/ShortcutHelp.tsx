@@ -0,0 +1,37 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SHORTCUT_HELP } from '@/lib/shortcuts';
+
+interface ShortcutHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="bg-white text-black rounded-2xl border-gray-200 sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Keyboard Shortcuts</DialogTitle>
+        <DialogDescription className="text-gray-500">
+          Moving, nudging and scaling work while Move is set to Picture or Camera.
+        </DialogDescription>
+      </DialogHeader>
+      <ul className="space-y-2">
+        {SHORTCUT_HELP.map(({ keys, description }) => (
+          <li key={description} className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">{description}</span>
+            <span className="flex space-x-1 ml-4 shrink-0">
+              {keys.map(key => (
+                <kbd key={key} className="min-w-7 text-center px-2 py-0.5 rounded-md border border-gray-300 bg-gray-100 text-xs font-medium text-black">
+                  {key}
+                </kbd>
+              ))}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutHelp;
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Share2, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { Snapshot, SnapshotVariant } from '@/lib/imageStore';
+import { canShareFile, captureFileName, downloadBlob, shareFile } from '@/lib/share';
+
+interface SnapshotGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  snapshots: Snapshot[];
+  capturing: boolean;
+  // False when there is no visible layer to composite
+  canCaptureOverlay: boolean;
+  onCapture: (variant: SnapshotVariant) => void;
+  onDelete: (id: string) => void;
+}
+
+// Object URLs for the thumbnails, revoked when the list changes
+const useSnapshotUrls = (snapshots: Snapshot[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const created: Record<string, string> = {};
+    snapshots.forEach(snapshot => {
+      created[snapshot.id] = URL.createObjectURL(snapshot.thumbnail);
+    });
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [snapshots]);
+
+  return urls;
+};
+
+const toFile = (snapshot: Snapshot) =>
+  new File([snapshot.blob], captureFileName(snapshot.createdAt, 'jpg'), { type: snapshot.blob.type });
+
+const actionButtonClass =
+  'flex items-center justify-center text-sm font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100 transition-colors duration-200';
+
+const SnapshotGallery: React.FC<SnapshotGalleryProps> = ({
+  open,
+  onOpenChange,
+  snapshots,
+  capturing,
+  canCaptureOverlay,
+  onCapture,
+  onDelete,
+}) => {
+  const urls = useSnapshotUrls(snapshots);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? snapshots[0];
+  const [previewUrl, setPreviewUrl] = useState<string>('');
+  const newestId = snapshots[0]?.id;
+
+  // Jump to a snapshot as soon as it's captured
+  useEffect(() => {
+    setSelectedId('');
+  }, [newestId]);
+
+  // Full-size preview of the selected snapshot
+  useEffect(() => {
+    if (!selected) return;
+    const url = URL.createObjectURL(selected.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const handleDelete = (snapshot: Snapshot) => {
+    if (window.confirm('Delete this snapshot?')) {
+      onDelete(snapshot.id);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Snapshots</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Saved on this device only. Download or share the ones you want to keep elsewhere.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onCapture('camera')}
+              disabled={capturing}
+              className="flex-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-60 text-black py-2 px-4 rounded-xl font-medium transition-colors duration-200 border border-gray-300 text-sm"
+            >
+              Camera only
+            </button>
+            <button
+              onClick={() => onCapture('overlay')}
+              disabled={capturing || !canCaptureOverlay}
+              className="flex-1 bg-slate-600 hover:bg-slate-700 disabled:opacity-60 text-white py-2 px-4 rounded-xl font-semibold transition-colors duration-200 text-sm"
+            >
+              {capturing ? 'Capturing…' : 'Camera + overlay'}
+            </button>
+          </div>
+
+          {selected && (
+            <div className="space-y-2">
+              <div
+                className="h-48 rounded-xl border border-gray-200 bg-gray-50"
+                style={{
+                  backgroundImage: previewUrl ? `url(${previewUrl})` : undefined,
+                  backgroundSize: 'contain',
+                  backgroundRepeat: 'no-repeat',
+                  backgroundPosition: 'center',
+                }}
+              />
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500 mr-auto">
+                  {new Date(selected.createdAt).toLocaleString()} · {selected.variant === 'overlay' ? 'with overlay' : 'camera only'}
+                </span>
+                <button onClick={() => downloadBlob(selected.blob, captureFileName(selected.createdAt, 'jpg'))} className={actionButtonClass}>
+                  <Download className="size-4 mr-1" />
+                  Save
+                </button>
+                {canShareFile(toFile(selected)) && (
+                  <button onClick={() => shareFile(toFile(selected), 'TraceCam progress')} className={actionButtonClass}>
+                    <Share2 className="size-4 mr-1" />
+                    Share
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(selected)}
+                  className={`${actionButtonClass} text-red-600 hover:bg-red-50`}
+                  aria-label="Delete snapshot"
+                >
+                  <Trash2 className="size-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No snapshots yet.</p>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {snapshots.map(snapshot => (
+                <button
+                  key={snapshot.id}
+                  onClick={() => setSelectedId(snapshot.id)}
+                  className={`aspect-square rounded-lg border-2 bg-gray-100 ${
+                    snapshot.id === selected?.id ? 'border-blue-500' : 'border-transparent'
+                  }`}
+                  style={{
+                    backgroundImage: urls[snapshot.id] ? `url(${urls[snapshot.id]})` : undefined,
+                    backgroundSize: 'cover',
+                    backgroundPosition: 'center',
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SnapshotGallery;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Share2, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { TIMELAPSE_FRAME_MS } from '@/hooks/useTimelapse';
+import type { Recording } from '@/lib/imageStore';
+import { canShareFile, captureFileName, downloadBlob, shareFile } from '@/lib/share';
+
+interface TimelapsePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // False when the browser has no usable MediaRecorder
+  supported: boolean;
+  isRecording: boolean;
+  frameCount: number;
+  // Seconds between samples
+  interval: number;
+  withOverlay: boolean;
+  saving: boolean;
+  recordings: Recording[];
+  onIntervalChange: (interval: number) => void;
+  onWithOverlayChange: (withOverlay: boolean) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onDelete: (id: string) => void;
+}
+
+const toFile = (recording: Recording) => {
+  const extension = recording.blob.type.includes('mp4') ? 'mp4' : 'webm';
+  return new File([recording.blob], captureFileName(recording.createdAt, extension), { type: recording.blob.type });
+};
+
+// Length of the finished video, e.g. "12.4 s"
+const formatDuration = (frames: number) => `${(frames * TIMELAPSE_FRAME_MS / 1000).toFixed(1)} s`;
+
+const actionButtonClass =
+  'flex items-center justify-center text-sm font-medium px-3 py-1 rounded-full border border-gray-200 text-black hover:bg-gray-100 transition-colors duration-200';
+
+const TimelapsePanel: React.FC<TimelapsePanelProps> = ({
+  open,
+  onOpenChange,
+  supported,
+  isRecording,
+  frameCount,
+  interval,
+  withOverlay,
+  saving,
+  recordings,
+  onIntervalChange,
+  onWithOverlayChange,
+  onStart,
+  onStop,
+  onDelete,
+}) => {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const selected = recordings.find(recording => recording.id === selectedId) ?? recordings[0];
+  const [previewUrl, setPreviewUrl] = useState<string>('');
+  const newestId = recordings[0]?.id;
+
+  // Jump to a recording as soon as it's saved
+  useEffect(() => {
+    setSelectedId('');
+  }, [newestId]);
+
+  useEffect(() => {
+    if (!selected) return;
+    const url = URL.createObjectURL(selected.blob);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const handleDelete = (recording: Recording) => {
+    if (window.confirm('Delete this time-lapse?')) {
+      onDelete(recording.id);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Time-lapse</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Keeps recording in Hide mode. Videos are saved on this device only.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-4">
+          {!supported ? (
+            <p className="text-sm text-gray-500 text-center py-4">This browser can't record video.</p>
+          ) : (
+            <>
+              <div>
+                <div className="text-black text-sm mb-1 font-medium">Sample every {interval} s</div>
+                <input
+                  type="range"
+                  min={1}
+                  max={10}
+                  step={1}
+                  value={interval}
+                  disabled={isRecording}
+                  onChange={(e) => onIntervalChange(parseInt(e.target.value, 10))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50"
+                />
+              </div>
+
+              <div className="flex justify-center space-x-2">
+                <button
+                  onClick={() => onWithOverlayChange(false)}
+                  disabled={isRecording}
+                  className={`text-sm font-medium px-3 py-1 rounded-full border border-gray-200 disabled:opacity-50 ${
+                    !withOverlay ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                  }`}
+                >
+                  Camera only
+                </button>
+                <button
+                  onClick={() => onWithOverlayChange(true)}
+                  disabled={isRecording}
+                  className={`text-sm font-medium px-3 py-1 rounded-full border border-gray-200 disabled:opacity-50 ${
+                    withOverlay ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+                  }`}
+                >
+                  Camera + overlay
+                </button>
+              </div>
+
+              <button
+                onClick={isRecording ? onStop : onStart}
+                disabled={saving}
+                className={`w-full disabled:opacity-60 text-white py-3 px-6 rounded-xl font-semibold transition-colors duration-200 ${
+                  isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-600 hover:bg-slate-700'
+                }`}
+              >
+                {saving
+                  ? 'Saving…'
+                  : isRecording
+                    ? `Stop · ${frameCount} frames (${formatDuration(frameCount)})`
+                    : 'Start Recording'}
+              </button>
+            </>
+          )}
+
+          {selected && (
+            <div className="space-y-2">
+              <video
+                key={selected.id}
+                src={previewUrl}
+                controls
+                playsInline
+                loop
+                className="w-full max-h-56 rounded-xl border border-gray-200 bg-black"
+              />
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-500 mr-auto">
+                  {new Date(selected.createdAt).toLocaleString()} · {formatDuration(selected.frames)}
+                </span>
+                <button onClick={() => downloadBlob(selected.blob, toFile(selected).name)} className={actionButtonClass}>
+                  <Download className="size-4 mr-1" />
+                  Save
+                </button>
+                {canShareFile(toFile(selected)) && (
+                  <button onClick={() => shareFile(toFile(selected), 'TraceCam time-lapse')} className={actionButtonClass}>
+                    <Share2 className="size-4 mr-1" />
+                    Share
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(selected)}
+                  className={`${actionButtonClass} text-red-600 hover:bg-red-50`}
+                  aria-label="Delete time-lapse"
+                >
+                  <Trash2 className="size-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {recordings.length > 1 && (
+            <div className="space-y-1">
+              {recordings.map(recording => (
+                <button
+                  key={recording.id}
+                  onClick={() => setSelectedId(recording.id)}
+                  className={`w-full text-left text-sm px-3 py-2 rounded-lg border transition-colors duration-200 ${
+                    recording.id === selected?.id
+                      ? 'border-blue-500 bg-blue-50 text-blue-600'
+                      : 'border-gray-200 text-black hover:bg-gray-100'
+                  }`}
+                >
+                  {new Date(recording.createdAt).toLocaleString()} · {recording.frames} frames every {recording.interval} s
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TimelapsePanel;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { tintMatrix } from '@/lib/adjustments';
+
+interface TintFilterProps {
+  id: string;
+  color: string;
+}
+
+// SVG filter referenced by toCssFilter for a layer's tint. It has to be in the
+// document; the svg itself takes no space. The colour matrix leaves source
+// alpha out, so the result is cut back to it: transparent pixels (e.g. a line
+// art background) stay transparent, as renderAdjustedImage has them.
+const TintFilter: React.FC<TintFilterProps> = ({ id, color }) => (
+  <svg className="absolute w-0 h-0" aria-hidden="true">
+    <filter id={id} colorInterpolationFilters="sRGB">
+      <feColorMatrix type="matrix" values={tintMatrix(color)} />
+      <feComposite operator="in" in2="SourceAlpha" />
+    </filter>
+  </svg>
+);
+
+export default TintFilter;
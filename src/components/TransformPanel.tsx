@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { clampScale, createIdentityTransform, MAX_SCALE, MIN_SCALE, normalizeAngle, type Transform } from '@/lib/transform';
+
+interface TransformPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: 'picture' | 'camera';
+  onTargetChange: (target: 'picture' | 'camera') => void;
+  // The target's transform; null when there is no picture to move
+  transform: Transform | null;
+  // Why the target can't be changed right now, if it can't
+  notice: string;
+  onChange: (transform: Transform) => void;
+  // Fit, fill and centre are in the camera area as seen on screen
+  onFit: (mode: 'contain' | 'cover') => void;
+  onCentre: () => void;
+  onReset: () => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: number;
+  step: number;
+  decimals: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const pillClass = (active: boolean) =>
+  `text-sm font-medium px-4 py-1 rounded-full transition-colors duration-200 border border-gray-200 ${
+    active ? 'bg-blue-100 text-blue-600' : 'text-black hover:bg-gray-100'
+  }`;
+
+const nudgeClass = 'w-9 h-9 shrink-0 flex items-center justify-center bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-black rounded-full transition-colors duration-200 border border-gray-300';
+
+const actionClass = 'flex-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-black py-2 px-3 rounded-full font-medium transition-colors duration-200 border border-gray-300 text-sm';
+
+// A number typed in is applied on Enter or when the field loses focus, so each
+// value is one undo step rather than one per keystroke
+const NumberField: React.FC<NumberFieldProps> = ({ label, unit, value, step, decimals, disabled, onChange }) => {
+  // What is being typed; null shows the live value
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = value.toFixed(decimals);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed) && parsed.toFixed(decimals) !== shown) onChange(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="w-16 text-sm text-black">{label}</span>
+      <button onClick={() => onChange(value - step)} disabled={disabled} aria-label={`Decrease ${label}`} className={nudgeClass}>
+        −
+      </button>
+      <label className="flex-1 flex items-center rounded-lg border border-gray-300 px-3 py-1">
+        <input
+          type="number"
+          inputMode="decimal"
+          step="any"
+          value={draft ?? shown}
+          disabled={disabled}
+          onFocus={() => setDraft(shown)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="w-full min-w-0 text-sm text-black bg-transparent outline-none"
+        />
+        <span className="text-xs text-gray-500 ml-1">{unit}</span>
+      </label>
+      <button onClick={() => onChange(value + step)} disabled={disabled} aria-label={`Increase ${label}`} className={nudgeClass}>
+        +
+      </button>
+    </div>
+  );
+};
+
+const TransformPanel: React.FC<TransformPanelProps> = ({
+  open,
+  onOpenChange,
+  target,
+  onTargetChange,
+  transform,
+  notice,
+  onChange,
+  onFit,
+  onCentre,
+  onReset,
+}) => {
+  const disabled = !transform || !!notice;
+  const current = transform ?? createIdentityTransform();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-white rounded-t-2xl max-h-[85vh]">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="text-black">Precise Position</SheetTitle>
+          <SheetDescription className="text-gray-500">
+            Type exact values or nudge them. Position is in pixels from the centre, scale from {MIN_SCALE * 100}% to {MAX_SCALE * 100}%.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="overflow-y-auto px-4 pb-4 space-y-3">
+          <div className="flex justify-center space-x-2">
+            <button onClick={() => onTargetChange('picture')} className={pillClass(target === 'picture')}>
+              Picture
+            </button>
+            <button onClick={() => onTargetChange('camera')} className={pillClass(target === 'camera')}>
+              Camera
+            </button>
+          </div>
+
+          <NumberField
+            label="X"
+            unit="px"
+            value={current.x}
+            step={1}
+            decimals={1}
+            disabled={disabled}
+            onChange={(x) => onChange({ ...current, x })}
+          />
+          <NumberField
+            label="Y"
+            unit="px"
+            value={current.y}
+            step={1}
+            decimals={1}
+            disabled={disabled}
+            onChange={(y) => onChange({ ...current, y })}
+          />
+          <NumberField
+            label="Scale"
+            unit="%"
+            value={current.scale * 100}
+            step={1}
+            decimals={1}
+            disabled={disabled}
+            onChange={(percent) => onChange({ ...current, scale: clampScale(percent / 100) })}
+          />
+          <NumberField
+            label="Rotation"
+            unit="°"
+            value={current.rotation}
+            step={0.5}
+            decimals={1}
+            disabled={disabled}
+            onChange={(rotation) => onChange({ ...current, rotation: normalizeAngle(rotation) })}
+          />
+
+          <div className="flex space-x-2 pt-1">
+            <button onClick={() => onFit('contain')} disabled={disabled} className={actionClass}>
+              Fit
+            </button>
+            <button onClick={() => onFit('cover')} disabled={disabled} className={actionClass}>
+              Fill
+            </button>
+            <button onClick={onCentre} disabled={disabled} className={actionClass}>
+              Centre
+            </button>
+            <button onClick={onReset} disabled={disabled} className={actionClass}>
+              Reset
+            </button>
+          </div>
+
+          {notice && <p className="text-sm text-gray-500 text-center">{notice}</p>}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TransformPanel;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface UnlockButtonProps {
+  onUnlock: () => void;
+  // How long the button has to be held
+  holdMs?: number;
+  // Shown beside the button while locked, e.g. that the screen may sleep
+  notice?: string;
+}
+
+const RING_RADIUS = 22;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+// Eye button that only unlocks after a long press, so a resting palm or a
+// stray tap can't bring the controls back mid-drawing
+const UnlockButton: React.FC<UnlockButtonProps> = ({ onUnlock, holdMs = 800, notice = '' }) => {
+  const [holding, setHolding] = useState<boolean>(false);
+  const [showHint, setShowHint] = useState<boolean>(false);
+  const timer = useRef<number | null>(null);
+
+  const cancel = () => {
+    if (timer.current !== null) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+    }
+    setHolding(false);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setHolding(true);
+    timer.current = window.setTimeout(() => {
+      timer.current = null;
+      setHolding(false);
+      onUnlock();
+    }, holdMs);
+  };
+
+  // Released too early: explain what to do instead
+  const handlePointerUp = () => {
+    if (timer.current !== null) {
+      setShowHint(true);
+    }
+    cancel();
+  };
+
+  useEffect(() => {
+    if (!showHint) return;
+    const timeout = window.setTimeout(() => setShowHint(false), 1500);
+    return () => window.clearTimeout(timeout);
+  }, [showHint]);
+
+  useEffect(() => () => {
+    if (timer.current !== null) window.clearTimeout(timer.current);
+  }, []);
+
+  return (
+    <div className="fixed top-4 left-4 z-50 flex items-center">
+      <button
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={cancel}
+        onContextMenu={(e) => e.preventDefault()}
+        aria-label="Hold to unlock"
+        className="relative w-12 h-12 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-black hover:bg-white transition-colors duration-200 shadow-lg touch-none select-none"
+      >
+        <svg className="absolute inset-0 -rotate-90" viewBox="0 0 48 48">
+          <circle
+            cx={24}
+            cy={24}
+            r={RING_RADIUS}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth={3}
+            strokeDasharray={RING_LENGTH}
+            strokeDashoffset={holding ? 0 : RING_LENGTH}
+            style={{ transition: holding ? `stroke-dashoffset ${holdMs}ms linear` : 'none' }}
+          />
+        </svg>
+        👁️
+      </button>
+      {(showHint || notice) && (
+        <span className="ml-2 bg-white/90 rounded-full px-3 py-1 text-sm text-black shadow-lg">
+          {showHint ? 'Hold to unlock' : notice}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default UnlockButton;
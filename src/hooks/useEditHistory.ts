@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  EMPTY_HISTORY,
+  pushHistory,
+  snapshotsEqual,
+  type EditHistory,
+  type EditSnapshot,
+} from '@/lib/history';
+import { loadSettings, saveSettings } from '@/lib/settings';
+import { isTypingTarget } from '@/lib/shortcuts';
+
+// Undo/redo around a value that is edited by gestures. Call beginEdit when a
+// gesture starts and endEdit when it ends, so the whole gesture becomes one
+// step; recordEdit marks a one-off change just before it is made.
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes while shortcutsEnabled
+// (off while the view is locked, e.g. in Hide mode). clear forgets every step,
+// for when the state is replaced wholesale (e.g. a project import).
+export const useEditHistory = (
+  current: EditSnapshot,
+  apply: (snapshot: EditSnapshot) => void,
+  shortcutsEnabled: boolean,
+) => {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  // Mirrors so callbacks always see the latest values without re-subscribing
+  const historyRef = useRef<EditHistory>(EMPTY_HISTORY);
+  const currentRef = useRef<EditSnapshot>(current);
+  const applyRef = useRef(apply);
+  const editStart = useRef<EditSnapshot | null>(null);
+  const [endRequest, setEndRequest] = useState<number>(0);
+
+  useEffect(() => {
+    currentRef.current = current;
+    applyRef.current = apply;
+  });
+
+  const commit = useCallback((next: EditHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+    saveSettings({ history: next });
+  }, []);
+
+  // Restore the saved history on mount
+  useEffect(() => {
+    const saved = loadSettings().history;
+    historyRef.current = saved;
+    setHistory(saved);
+  }, []);
+
+  const beginEdit = useCallback(() => {
+    if (!editStart.current) {
+      editStart.current = currentRef.current;
+    }
+  }, []);
+
+  // The gesture's last change may have been set in the same tick, so the step
+  // is recorded after the next render, once current includes it
+  const endEdit = useCallback(() => {
+    setEndRequest(count => count + 1);
+  }, []);
+
+  useEffect(() => {
+    const start = editStart.current;
+    if (!endRequest || !start) return;
+    editStart.current = null;
+    if (!snapshotsEqual(start, currentRef.current)) {
+      commit(pushHistory(historyRef.current, start));
+    }
+  }, [endRequest, commit]);
+
+  const recordEdit = useCallback(() => {
+    commit(pushHistory(historyRef.current, currentRef.current));
+  }, [commit]);
+
+  const clear = useCallback(() => {
+    editStart.current = null;
+    commit(EMPTY_HISTORY);
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    if (past.length === 0) return;
+    commit({ past: past.slice(0, -1), future: [currentRef.current, ...future] });
+    applyRef.current(past[past.length - 1]);
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    if (future.length === 0) return;
+    commit({ past: [...past, currentRef.current], future: future.slice(1) });
+    applyRef.current(future[0]);
+  }, [commit]);
+
+  // Keyboard shortcuts, except while typing (e.g. renaming a reference), where
+  // the field has its own undo. Sliders have none, so the shortcuts still work
+  // right after using one.
+  useEffect(() => {
+    if (!shortcutsEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, shortcutsEnabled]);
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    beginEdit,
+    endEdit,
+    recordEdit,
+    undo,
+    redo,
+    clear,
+  };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+// Layout size of an element (ignores CSS transforms), kept up to date with
+// ResizeObserver. Returns a callback ref so elements that mount later are picked up.
+export const useElementSize = <T extends HTMLElement>() => {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+
+    const update = () => {
+      setSize(prev =>
+        prev.width === element.offsetWidth && prev.height === element.offsetHeight
+          ? prev
+          : { width: element.offsetWidth, height: element.offsetHeight }
+      );
+    };
+    update();
+
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, size] as const;
+};
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getImage } from '@/lib/imageStore';
+
+export interface LoadedImage {
+  url: string;
+  // Pixel size of the original, used to fit the layer box to the image
+  width: number;
+  height: number;
+  // Line art version, when one has been generated
+  processedUrl?: string;
+}
+
+const revokeImage = (image: LoadedImage) => {
+  URL.revokeObjectURL(image.url);
+  if (image.processedUrl) URL.revokeObjectURL(image.processedUrl);
+};
+
+// Object URLs for the working copies of the given images, keyed by image id.
+// URLs are cached while an id stays in the list so layers don't flicker when
+// another layer is added, and revoked once the id is dropped or on unmount.
+// Call reloadImage after changing a stored image (e.g. new line art).
+export const useImageUrls = (imageIds: string[]) => {
+  const [images, setImages] = useState<Record<string, LoadedImage>>({});
+  const [reloadToken, setReloadToken] = useState<number>(0);
+  const cacheRef = useRef<Record<string, LoadedImage>>({});
+  const idsKey = [...new Set(imageIds)].sort().join('|');
+
+  const reloadImage = useCallback((id: string) => {
+    const cached = cacheRef.current[id];
+    if (cached) {
+      revokeImage(cached);
+      delete cacheRef.current[id];
+    }
+    setReloadToken(token => token + 1);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const cache = cacheRef.current;
+    const ids = idsKey ? idsKey.split('|') : [];
+
+    Object.keys(cache)
+      .filter(id => !ids.includes(id))
+      .forEach(id => {
+        revokeImage(cache[id]);
+        delete cache[id];
+      });
+
+    const load = async () => {
+      await Promise.all(ids.filter(id => !cache[id]).map(async id => {
+        try {
+          const record = await getImage(id);
+          if (record && !cancelled) {
+            cache[id] = {
+              url: URL.createObjectURL(record.working),
+              width: record.width,
+              height: record.height,
+              processedUrl: record.processed ? URL.createObjectURL(record.processed.blob) : undefined,
+            };
+          }
+        } catch (err) {
+          console.error('Failed to load image', id, err);
+        }
+      }));
+      if (!cancelled) {
+        setImages({ ...cache });
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, reloadToken]);
+
+  // Release everything on unmount
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      Object.values(cache).forEach(revokeImage);
+      Object.keys(cache).forEach(id => delete cache[id]);
+    };
+  }, []);
+
+  return { images, reloadImage };
+};
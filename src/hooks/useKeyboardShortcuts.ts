@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { isTypingTarget, matchShortcut, type ShortcutAction } from '@/lib/shortcuts';
+
+// Sliders use the arrow keys themselves
+const ownsKeys = (target: EventTarget | null) =>
+  isTypingTarget(target)
+  || target instanceof HTMLInputElement
+  || (target instanceof HTMLElement && target.getAttribute('role') === 'slider');
+
+// Calls onAction for each shortcut key press (repeats included, so holding an
+// arrow keeps nudging) and onRelease when a shortcut key is let go, which is
+// where a held key's changes end as one undo step.
+export const useKeyboardShortcuts = (
+  enabled: boolean,
+  onAction: (action: ShortcutAction) => void,
+  onRelease: () => void,
+) => {
+  const handlersRef = useRef({ onAction, onRelease });
+
+  useEffect(() => {
+    handlersRef.current = { onAction, onRelease };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (ownsKeys(e.target)) return;
+      const action = matchShortcut(e);
+      if (!action) return;
+      // Arrows would otherwise scroll, and +/- zoom some browsers' pages
+      e.preventDefault();
+      handlersRef.current.onAction(action);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (!ownsKeys(e.target) && matchShortcut(e)) handlersRef.current.onRelease();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [enabled]);
+};
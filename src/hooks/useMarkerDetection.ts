@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { MARKER_FRAME_WIDTH, MARKER_INTERVAL_MS, type MarkerRequest, type MarkerResponse } from '@/lib/markers';
+import type { Quad } from '@/lib/perspective';
+import { isTrackingSupported } from './useMotionTracking';
+
+export type MarkerStatus = 'off' | 'searching' | 'found' | 'unsupported' | 'error';
+
+// Searches the video for the printed corner markers while enabled and calls
+// onPaper with the paper's corners (in marker frame pixels, frame size
+// alongside) whenever all four are in view. found counts the markers seen in
+// the latest frame.
+export const useMarkerDetection = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  enabled: boolean,
+  onPaper: (quad: Quad, frameWidth: number, frameHeight: number) => void,
+) => {
+  const [status, setStatus] = useState<MarkerStatus>('off');
+  const [found, setFound] = useState(0);
+  const onPaperRef = useRef(onPaper);
+
+  useEffect(() => {
+    onPaperRef.current = onPaper;
+  });
+
+  useEffect(() => {
+    setFound(0);
+    if (!enabled) {
+      setStatus('off');
+      return;
+    }
+    if (!isTrackingSupported()) {
+      setStatus('unsupported');
+      return;
+    }
+
+    setStatus('searching');
+    const worker = new Worker(new URL('../workers/markers.worker.ts', import.meta.url), { type: 'module' });
+    let cancelled = false;
+    // One frame in flight at a time, so slow phones skip frames instead of queueing them
+    let busy = false;
+
+    worker.onmessage = (event: MessageEvent<MarkerResponse>) => {
+      busy = false;
+      if (cancelled) return;
+      const response = event.data;
+      if ('error' in response) {
+        console.error('Marker detection failed', response.error);
+        setStatus('error');
+        return;
+      }
+      setFound(response.found);
+      setStatus(response.quad ? 'found' : 'searching');
+      // Fewer than four markers: the layer stays where the last full view put it
+      if (response.quad) onPaperRef.current(response.quad, response.width, response.height);
+    };
+
+    const sendFrame = async () => {
+      const video = videoRef.current;
+      if (busy || !video || !video.videoWidth || !video.videoHeight) return;
+      busy = true;
+      try {
+        const bitmap = await createImageBitmap(video, {
+          resizeWidth: MARKER_FRAME_WIDTH,
+          resizeHeight: Math.round(MARKER_FRAME_WIDTH * video.videoHeight / video.videoWidth),
+          resizeQuality: 'medium',
+        });
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        const request: MarkerRequest = { bitmap };
+        worker.postMessage(request, [bitmap]);
+      } catch (err) {
+        // Video not ready for a moment (e.g. switching cameras)
+        console.error('Failed to grab a marker frame', err);
+        busy = false;
+      }
+    };
+    const timer = window.setInterval(sendFrame, MARKER_INTERVAL_MS);
+
+    // The worker is gone; stop sending it frames
+    worker.onerror = (event) => {
+      console.error('Marker detection worker failed', event.message);
+      window.clearInterval(timer);
+      if (!cancelled) setStatus('error');
+    };
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      worker.terminate();
+    };
+  }, [enabled, videoRef]);
+
+  return { status, found };
+};
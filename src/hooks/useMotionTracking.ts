@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import {
+  composeSimilarity,
+  IDENTITY_SIMILARITY,
+  invertSimilarity,
+  isNegligibleMotion,
+  TRACKING_FRAME_WIDTH,
+  TRACKING_INTERVAL_MS,
+  type Similarity,
+  type TrackingRequest,
+  type TrackingResponse,
+} from '@/lib/tracking';
+
+export type TrackingStatus = 'off' | 'starting' | 'tracking' | 'lost' | 'unsupported';
+
+export const isTrackingSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Follows the paper in the video while enabled and calls onMove with each
+// change of its position (in tracking frame pixels, frame size alongside).
+// The frame current when tracking starts, or when reanchor is called, is where
+// the paper belongs.
+export const useMotionTracking = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  enabled: boolean,
+  onMove: (delta: Similarity, frameWidth: number) => void,
+) => {
+  const [status, setStatus] = useState<TrackingStatus>('off');
+  const onMoveRef = useRef(onMove);
+  const anchorRequested = useRef(false);
+
+  useEffect(() => {
+    onMoveRef.current = onMove;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('off');
+      return;
+    }
+    if (!isTrackingSupported()) {
+      setStatus('unsupported');
+      return;
+    }
+
+    setStatus('starting');
+    const worker = new Worker(new URL('../workers/tracking.worker.ts', import.meta.url), { type: 'module' });
+    let cancelled = false;
+    // One frame in flight at a time, so slow phones skip frames instead of queueing them
+    let busy = false;
+    // Motion already passed on to onMove, relative to the anchor
+    let applied = IDENTITY_SIMILARITY;
+    let frameWidth = 0;
+    anchorRequested.current = true;
+
+    worker.onmessage = (event: MessageEvent<TrackingResponse>) => {
+      busy = false;
+      if (cancelled) return;
+      const response = event.data;
+      if ('error' in response) {
+        console.error('Motion tracking failed', response.error);
+        setStatus('lost');
+        return;
+      }
+      if (response.status === 'lost') {
+        setStatus('lost');
+        return;
+      }
+      setStatus('tracking');
+      // The worker started over (new anchor, or the frame changed size or
+      // orientation); so does the motion
+      if (response.reset) {
+        frameWidth = response.width;
+        applied = response.motion;
+        return;
+      }
+      const delta = composeSimilarity(response.motion, invertSimilarity(applied));
+      if (isNegligibleMotion(delta)) return;
+      applied = response.motion;
+      onMoveRef.current(delta, frameWidth);
+    };
+    worker.onerror = (event) => {
+      console.error('Motion tracking worker failed', event.message);
+      if (!cancelled) setStatus('lost');
+    };
+
+    const sendFrame = async () => {
+      const video = videoRef.current;
+      if (busy || !video || !video.videoWidth || !video.videoHeight) return;
+      busy = true;
+      try {
+        const bitmap = await createImageBitmap(video, {
+          resizeWidth: TRACKING_FRAME_WIDTH,
+          resizeHeight: Math.round(TRACKING_FRAME_WIDTH * video.videoHeight / video.videoWidth),
+          resizeQuality: 'low',
+        });
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        const anchor = anchorRequested.current;
+        anchorRequested.current = false;
+        if (anchor) {
+          applied = IDENTITY_SIMILARITY;
+          frameWidth = bitmap.width;
+        }
+        const request: TrackingRequest = { bitmap, anchor };
+        worker.postMessage(request, [bitmap]);
+      } catch (err) {
+        // Video not ready for a moment (e.g. switching cameras)
+        console.error('Failed to grab a tracking frame', err);
+        busy = false;
+      }
+    };
+    const timer = window.setInterval(sendFrame, TRACKING_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      worker.terminate();
+    };
+  }, [enabled, videoRef]);
+
+  // The paper is where it should be now: track from here
+  const reanchor = useCallback(() => {
+    anchorRequested.current = true;
+  }, []);
+
+  return { status, reanchor };
+};
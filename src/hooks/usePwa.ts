@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Chromium's install prompt event; not part of lib.dom
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+// Service worker registration plus the install and update prompts. The worker
+// is only registered in production builds, where /sw.js exists.
+export const usePwa = () => {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+  const [updateReady, setUpdateReady] = useState<boolean>(false);
+  const registrationRef = useRef<ServiceWorkerRegistration | null>(null);
+
+  useEffect(() => {
+    const handleBeforeInstallPrompt = (e: Event) => {
+      // Keep the event so the app can show its own prompt instead of the mini-infobar
+      e.preventDefault();
+      setInstallEvent(e as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallEvent(null);
+    window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    let cancelled = false;
+
+    // A worker that finished installing while another one controls the page is an update
+    const watchInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller && !cancelled) {
+          setUpdateReady(true);
+        }
+      });
+    };
+
+    navigator.serviceWorker.register('/sw.js')
+      .then(registration => {
+        if (cancelled) return;
+        registrationRef.current = registration;
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setUpdateReady(true);
+        }
+        watchInstalling(registration.installing);
+        registration.addEventListener('updatefound', () => watchInstalling(registration.installing));
+      })
+      .catch(err => console.error('Service worker registration failed', err));
+
+    // Long tracing sessions: look for a new version whenever the app comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        registrationRef.current?.update().catch(() => undefined);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const install = useCallback(async () => {
+    if (!installEvent) return;
+    await installEvent.prompt();
+    await installEvent.userChoice;
+    // The event can only be used once
+    setInstallEvent(null);
+  }, [installEvent]);
+
+  // Switch to the waiting version and reload once it has taken over
+  const applyUpdate = useCallback(() => {
+    const waiting = registrationRef.current?.waiting;
+    if (!waiting) {
+      window.location.reload();
+      return;
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }, []);
+
+  return { canInstall: installEvent !== null, install, updateReady, applyUpdate };
+};
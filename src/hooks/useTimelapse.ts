@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { captureSize, drawView, loadLayerImage, type CaptureLayer, type CaptureOptions } from '@/lib/capture';
+
+// Longest edge of time-lapse frames; keeps encoding light on phones
+const TIMELAPSE_MAX_DIMENSION = 1280;
+// How long each sample lasts in the output video (100 ms is 10 samples per second)
+export const TIMELAPSE_FRAME_MS = 100;
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+// First container the browser can record, or undefined when MediaRecorder is missing
+export const pickTimelapseMimeType = () =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export interface TimelapseResult {
+  blob: Blob;
+  frames: number;
+  interval: number;
+  withOverlay: boolean;
+}
+
+interface TimelapseSession {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  chunks: Blob[];
+  timer: number;
+  frames: number;
+  interval: number;
+  withOverlay: boolean;
+  // The sample being drawn, so stop() can wait for it
+  pending: Promise<void> | null;
+  // Decoded and adjusted layer images by layerImageKey, kept between samples
+  images: Map<string, Promise<LayerImage>>;
+}
+
+type LayerImage = Awaited<ReturnType<typeof loadLayerImage>>;
+
+// A layer's image only has to be rebuilt when its picture or adjustments
+// change; moves and opacity are applied when it is drawn
+const layerImageKey = (layer: CaptureLayer) => `${layer.url} ${JSON.stringify(layer.adjustments)}`;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Time-lapse recorder for the live view. MediaRecorder timestamps follow the
+// wall clock, so the recorder is kept paused and only resumed for a moment
+// around each sample: the output then plays back at one sample per
+// TIMELAPSE_FRAME_MS however far apart the samples were taken.
+// getFrameOptions is called for every sample so moves and layer changes made
+// while recording show up in the video.
+export const useTimelapse = (getFrameOptions: (withOverlay: boolean) => CaptureOptions | null) => {
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [frameCount, setFrameCount] = useState<number>(0);
+  const sessionRef = useRef<TimelapseSession | null>(null);
+  const getFrameOptionsRef = useRef(getFrameOptions);
+
+  useEffect(() => {
+    getFrameOptionsRef.current = getFrameOptions;
+  }, [getFrameOptions]);
+
+  const takeSample = useCallback(async (session: TimelapseSession) => {
+    const options = getFrameOptionsRef.current(session.withOverlay);
+    // Camera restarting (e.g. switching devices): skip this sample
+    if (!options || !options.video.videoWidth) return;
+
+    try {
+      const keys = options.layers.map(layerImageKey);
+      // Forget images no layer uses any more
+      for (const key of session.images.keys()) {
+        if (!keys.includes(key)) session.images.delete(key);
+      }
+      const images = await Promise.all(options.layers.map((layer, index) => {
+        let image = session.images.get(keys[index]);
+        if (!image) {
+          image = loadLayerImage(layer);
+          // Try again on the next sample rather than keeping the failure
+          image.catch(() => session.images.delete(keys[index]));
+          session.images.set(keys[index], image);
+        }
+        return image;
+      }));
+      if (session.recorder.state !== 'paused') return;
+
+      session.recorder.resume();
+      drawView(session.ctx, session.width, session.height, options, images);
+      session.frames += 1;
+      setFrameCount(session.frames);
+      await sleep(TIMELAPSE_FRAME_MS);
+      // stop() may have run while we slept
+      if ((session.recorder.state as RecordingState) === 'recording') {
+        session.recorder.pause();
+      }
+    } catch (err) {
+      console.error('Time-lapse sample failed', err);
+    }
+  }, []);
+
+  const sample = useCallback((session: TimelapseSession) => {
+    // Slow devices may still be on the previous sample; don't stack them up
+    if (session.pending) return;
+    session.pending = takeSample(session).finally(() => {
+      session.pending = null;
+    });
+  }, [takeSample]);
+
+  // Start sampling every interval seconds; throws when recording isn't possible
+  const start = useCallback((interval: number, withOverlay: boolean) => {
+    if (sessionRef.current) return;
+
+    const mimeType = pickTimelapseMimeType();
+    if (!mimeType) {
+      throw new Error('This browser cannot record video');
+    }
+    const options = getFrameOptionsRef.current(withOverlay);
+    if (!options) {
+      throw new Error('The camera is not ready yet');
+    }
+
+    // Video encoders want even dimensions
+    const size = captureSize(options, TIMELAPSE_MAX_DIMENSION);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width - (size.width % 2);
+    canvas.height = size.height - (size.height % 2);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    const stream = canvas.captureStream();
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+    const session: TimelapseSession = {
+      recorder,
+      stream,
+      ctx,
+      width: canvas.width,
+      height: canvas.height,
+      chunks: [],
+      timer: 0,
+      frames: 0,
+      interval,
+      withOverlay,
+      pending: null,
+      images: new Map(),
+    };
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) session.chunks.push(e.data);
+    };
+    recorder.start();
+    recorder.pause();
+
+    session.timer = window.setInterval(() => sample(session), interval * 1000);
+    sessionRef.current = session;
+    setFrameCount(0);
+    setIsRecording(true);
+    sample(session);
+  }, [sample]);
+
+  // Stop and return the encoded video, or null when no sample was taken
+  const stop = useCallback(async (): Promise<TimelapseResult | null> => {
+    const session = sessionRef.current;
+    if (!session) return null;
+    sessionRef.current = null;
+    window.clearInterval(session.timer);
+    setIsRecording(false);
+
+    await session.pending;
+    const blob = await new Promise<Blob>(resolve => {
+      session.recorder.onstop = () => resolve(new Blob(session.chunks, { type: session.recorder.mimeType }));
+      session.recorder.stop();
+    });
+    session.stream.getTracks().forEach(track => track.stop());
+
+    if (session.frames === 0) return null;
+    return { blob, frames: session.frames, interval: session.interval, withOverlay: session.withOverlay };
+  }, []);
+
+  // Drop an unfinished recording on unmount
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    window.clearInterval(session.timer);
+    if (session.recorder.state !== 'inactive') session.recorder.stop();
+    session.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  return { isRecording, frameCount, start, stop };
+};
@@ -0,0 +1,205 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { useGesture } from '@use-gesture/react';
+import {
+  clampScale,
+  isMirrored,
+  normalizeAngle,
+  screenDeltaToLocal,
+  snapRotation,
+  toCssTransform,
+  type Transform,
+} from '@/lib/transform';
+
+export interface GestureTarget<K> {
+  // Which thing is moved; handed back on commit, so the gesture finishes on
+  // what it started on even if the mode or selection changes meanwhile
+  key: K;
+  transform: Transform;
+  // Element that displays the transform; its style is updated while the gesture runs
+  element: HTMLElement;
+  // Transforms of the elements it sits in, outermost first; finger movement is
+  // mapped through them so the element follows the finger when they are rotated or flipped
+  parents: Transform[];
+}
+
+interface TransformGestureOptions<K> {
+  // False turns the gestures off (nothing to move, locked layer, Hide mode)
+  enabled: boolean;
+  rotationSnap: boolean;
+  // What to move, read once when a gesture starts
+  getTarget: () => GestureTarget<K> | null;
+  onStart: () => void;
+  // Called once per gesture with the final transform and the target's key
+  onCommit: (transform: Transform, key: K) => void;
+}
+
+interface GestureSession<K> {
+  key: K;
+  element: HTMLElement;
+  parents: Transform[];
+  live: Transform;
+  // Drag, pinch and wheel running on this session; it ends when all have
+  active: number;
+  frame: number;
+}
+
+// Scale change per pixel of wheel scroll
+const WHEEL_ZOOM_SPEED = 0.002;
+
+// Zooms from a mouse wheel or trackpad pinch keep the point under the cursor
+// still; finger pinches zoom around the element's centre as before
+interface ZoomPivot {
+  pivot: [number, number];
+  // The element's centre on screen when the zoom started
+  centre: [number, number];
+}
+
+interface ZoomMemo {
+  base: Transform;
+  around: ZoomPivot | null;
+}
+
+const zoomPivot = (element: HTMLElement, pivot: [number, number]): ZoomPivot => {
+  const rect = element.getBoundingClientRect();
+  return { pivot, centre: [rect.left + rect.width / 2, rect.top + rect.height / 2] };
+};
+
+// Position that keeps the pivot still when base is scaled to scale: the
+// element shifts by the pivot's offset from its centre times the scale change
+const positionAround = (base: Transform, scale: number, around: ZoomPivot, parents: Transform[]) => {
+  const change = 1 - scale / base.scale;
+  const delta = screenDeltaToLocal(
+    change * (around.pivot[0] - around.centre[0]),
+    change * (around.pivot[1] - around.centre[1]),
+    parents,
+  );
+  return { x: base.x + delta.x, y: base.y + delta.y };
+};
+
+// Drag to pan, pinch (or mouse wheel) to zoom and rotate, on the element in
+// target. Moves are written straight to the moved element's style once per
+// animation frame, so React doesn't re-render on every pointer event; state is
+// committed once, when the last finger lifts (or the wheel stops).
+export const useTransformGestures = <K>(target: RefObject<HTMLElement | null>, options: TransformGestureOptions<K>) => {
+  const sessionRef = useRef<GestureSession<K> | null>(null);
+  // Latest options for the handlers, which use-gesture keeps between renders
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const begin = () => {
+    if (!sessionRef.current) {
+      const gestureTarget = optionsRef.current.getTarget();
+      if (!gestureTarget) return null;
+      optionsRef.current.onStart();
+      sessionRef.current = {
+        key: gestureTarget.key,
+        element: gestureTarget.element,
+        parents: gestureTarget.parents,
+        live: gestureTarget.transform,
+        active: 0,
+        frame: 0,
+      };
+    }
+    sessionRef.current.active += 1;
+    return sessionRef.current;
+  };
+
+  const update = (session: GestureSession<K>, next: Transform) => {
+    session.live = next;
+    if (session.frame) return;
+    session.frame = requestAnimationFrame(() => {
+      session.frame = 0;
+      session.element.style.transform = toCssTransform(session.live);
+    });
+  };
+
+  const end = (session: GestureSession<K>) => {
+    session.active -= 1;
+    if (session.active > 0) return;
+    cancelAnimationFrame(session.frame);
+    sessionRef.current = null;
+    session.element.style.transform = toCssTransform(session.live);
+    optionsRef.current.onCommit(session.live, session.key);
+  };
+
+  useGesture(
+    {
+      onDrag: ({ first, last, pinching, canceled, cancel, movement: [dx, dy], memo }) => {
+        // Two fingers down: the pinch takes over
+        if (pinching && !canceled) {
+          cancel();
+          return memo;
+        }
+        const session = first ? begin() : sessionRef.current;
+        if (!session) return;
+        // The element's own translate comes first, so only its parents change the direction
+        const base: Transform = first ? session.live : memo;
+        if (!canceled) {
+          const delta = screenDeltaToLocal(dx, dy, session.parents);
+          update(session, { ...session.live, x: base.x + delta.x, y: base.y + delta.y });
+        }
+        if (last) end(session);
+        return base;
+      },
+      onPinch: ({ first, last, movement: [ratio, angle], origin, event, memo }) => {
+        const session = first ? begin() : sessionRef.current;
+        if (!session) return;
+        const fromCursor = event.type === 'wheel' || event.type.startsWith('gesture');
+        const start: ZoomMemo = first
+          ? { base: session.live, around: fromCursor ? zoomPivot(session.element, origin) : null }
+          : memo;
+        const { base } = start;
+        const rotation = base.rotation + (isMirrored(session.parents) ? -angle : angle);
+        const scale = clampScale(base.scale * ratio);
+        update(session, {
+          ...session.live,
+          ...(start.around && positionAround(base, scale, start.around, session.parents)),
+          scale,
+          rotation: optionsRef.current.rotationSnap ? snapRotation(rotation) : normalizeAngle(rotation),
+        });
+        if (last) end(session);
+        return start;
+      },
+      onWheel: ({ first, last, movement: [, dy], event, memo }) => {
+        // Ctrl+wheel is how browsers report a trackpad pinch, which onPinch handles
+        if (first && event.ctrlKey) return;
+        const session = first ? begin() : memo && sessionRef.current;
+        if (!session) return;
+        const start: ZoomMemo = first
+          ? { base: session.live, around: zoomPivot(session.element, [event.clientX, event.clientY]) }
+          : memo;
+        const { base } = start;
+        const scale = clampScale(base.scale * Math.exp(-dy * WHEEL_ZOOM_SPEED));
+        update(session, {
+          ...session.live,
+          ...(start.around && positionAround(base, scale, start.around, session.parents)),
+          scale,
+        });
+        if (last) end(session);
+        return start;
+      },
+    },
+    {
+      target,
+      enabled: options.enabled,
+      eventOptions: { passive: false },
+    },
+  );
+
+  // Switched off mid-gesture (e.g. the mode changed): the rest of its events
+  // never arrive, so end it here and keep what was done so far
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (options.enabled || !session) return;
+    session.active = 1;
+    end(session);
+  });
+
+  // Don't leave a frame queued after unmount
+  useEffect(() => () => {
+    if (sessionRef.current) cancelAnimationFrame(sessionRef.current.frame);
+  }, []);
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+
+// Keep the screen on while active is true (Screen Wake Lock API). The browser
+// drops the lock whenever the page is hidden, so it is requested again when
+// the page becomes visible. Does nothing where the API is missing; failed is
+// true when the browser refused the last request.
+export const useWakeLock = (active: boolean) => {
+  const [held, setHeld] = useState<boolean>(false);
+  const [failed, setFailed] = useState<boolean>(false);
+  const supported = typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+
+  useEffect(() => {
+    if (!active || !supported) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+    // A request still waiting for an answer; asking again would leave one lock unreleased
+    let requesting = false;
+
+    const acquire = async () => {
+      if (requesting || document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+      requesting = true;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          lock.release();
+          return;
+        }
+        sentinel = lock;
+        setHeld(true);
+        setFailed(false);
+        lock.addEventListener('release', () => setHeld(false));
+      } catch (err) {
+        // Refused in low-power mode or without a user gesture; the screen may dim
+        console.error('Wake lock request failed', err);
+        if (!cancelled) setFailed(true);
+      } finally {
+        requesting = false;
+      }
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', acquire);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', acquire);
+      sentinel?.release();
+      setHeld(false);
+      setFailed(false);
+    };
+  }, [active, supported]);
+
+  return { supported, held, failed };
+};
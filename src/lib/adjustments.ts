@@ -0,0 +1,172 @@
+// Non-destructive look adjustments for an overlay layer: the reference image is
+// never changed, the adjustments are applied when it is drawn. On screen that is
+// a CSS filter (plus an SVG filter for the tint) and mix-blend-mode; snapshots
+// and time-lapse frames use renderAdjustedImage, which does the same maths on
+// the pixels because canvas filters aren't available in every browser.
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'difference';
+
+export interface ImageAdjustments {
+  // Multipliers, 1 leaves the image unchanged
+  contrast: number;
+  brightness: number;
+  saturation: number;
+  invert: boolean;
+  // Show the image as lines of this colour: dark parts take the colour, light
+  // parts become transparent. null keeps the image's own colours.
+  tint: string | null;
+  // How the layer mixes with the camera view beneath it
+  blendMode: BlendMode;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  contrast: 1,
+  brightness: 1,
+  saturation: 1,
+  invert: false,
+  tint: null,
+  blendMode: 'normal',
+};
+
+export const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: 'normal', label: 'Normal' },
+  { mode: 'multiply', label: 'Multiply' },
+  { mode: 'screen', label: 'Screen' },
+  { mode: 'difference', label: 'Difference' },
+];
+
+export const TINT_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#000000', '#ffffff'];
+
+// Slider range shared by contrast, brightness and saturation
+export const MIN_ADJUSTMENT = 0;
+export const MAX_ADJUSTMENT = 3;
+
+const clampAmount = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.max(MIN_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, value))
+    : 1;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Validate saved adjustments, falling back to defaults field by field
+export const parseAdjustments = (value: unknown): ImageAdjustments => {
+  if (!value || typeof value !== 'object') return DEFAULT_ADJUSTMENTS;
+  const parsed = value as Record<string, unknown>;
+  return {
+    contrast: clampAmount(parsed.contrast),
+    brightness: clampAmount(parsed.brightness),
+    saturation: clampAmount(parsed.saturation),
+    invert: parsed.invert === true,
+    tint: typeof parsed.tint === 'string' && HEX_COLOR.test(parsed.tint) ? parsed.tint : null,
+    blendMode: BLEND_MODES.some(item => item.mode === parsed.blendMode)
+      ? parsed.blendMode as BlendMode
+      : DEFAULT_ADJUSTMENTS.blendMode,
+  };
+};
+
+export const isDefaultAdjustments = (adjustments: ImageAdjustments) =>
+  JSON.stringify(parseAdjustments(adjustments)) === JSON.stringify(DEFAULT_ADJUSTMENTS);
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16) / 255);
+
+// Rec. 709 luma weights, as used by the CSS filter functions
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+// feColorMatrix values for the tint: constant colour, alpha from darkness.
+// The matrix can't multiply by source alpha, so TintFilter composites the
+// result with SourceAlpha afterwards.
+export const tintMatrix = (tint: string) => {
+  const [r, g, b] = hexToRgb(tint);
+  return [
+    0, 0, 0, 0, r,
+    0, 0, 0, 0, g,
+    0, 0, 0, 0, b,
+    -LUMA[0], -LUMA[1], -LUMA[2], 0, 1,
+  ].join(' ');
+};
+
+// CSS filter for the adjustments; tintFilterId names the SVG filter built from
+// tintMatrix, which has to be in the document when a tint is set
+export const toCssFilter = (adjustments: ImageAdjustments, tintFilterId: string) => {
+  const filters: string[] = [];
+  if (adjustments.brightness !== 1) filters.push(`brightness(${adjustments.brightness})`);
+  if (adjustments.contrast !== 1) filters.push(`contrast(${adjustments.contrast})`);
+  if (adjustments.saturation !== 1) filters.push(`saturate(${adjustments.saturation})`);
+  if (adjustments.invert) filters.push('invert(1)');
+  if (adjustments.tint) filters.push(`url(#${tintFilterId})`);
+  return filters.length > 0 ? filters.join(' ') : undefined;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Copy of the image with the adjustments applied (blend mode excluded; that is
+// up to whoever draws it), matching toCssFilter step for step
+export const renderAdjustedImage = (
+  image: HTMLImageElement,
+  adjustments: ImageAdjustments,
+): HTMLImageElement | HTMLCanvasElement => {
+  if (isDefaultAdjustments({ ...adjustments, blendMode: 'normal' })) return image;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(image, 0, 0);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = pixels.data;
+  const { brightness, contrast, saturation, invert, tint } = adjustments;
+  const tintRgb = tint ? hexToRgb(tint) : null;
+  // saturate() colour matrix from the Filter Effects spec
+  const s = saturation;
+  const saturate = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Transparent pixels stay transparent, whatever the adjustments
+    if (data[i + 3] === 0) continue;
+    let r = data[i] / 255;
+    let g = data[i + 1] / 255;
+    let b = data[i + 2] / 255;
+    let a = data[i + 3] / 255;
+
+    r = clamp01(r * brightness);
+    g = clamp01(g * brightness);
+    b = clamp01(b * brightness);
+
+    r = clamp01((r - 0.5) * contrast + 0.5);
+    g = clamp01((g - 0.5) * contrast + 0.5);
+    b = clamp01((b - 0.5) * contrast + 0.5);
+
+    if (s !== 1) {
+      [r, g, b] = [
+        clamp01(saturate[0] * r + saturate[1] * g + saturate[2] * b),
+        clamp01(saturate[3] * r + saturate[4] * g + saturate[5] * b),
+        clamp01(saturate[6] * r + saturate[7] * g + saturate[8] * b),
+      ];
+    }
+
+    if (invert) {
+      r = 1 - r;
+      g = 1 - g;
+      b = 1 - b;
+    }
+
+    if (tintRgb) {
+      a = clamp01(1 - (LUMA[0] * r + LUMA[1] * g + LUMA[2] * b)) * a;
+      [r, g, b] = tintRgb;
+    }
+
+    data[i] = r * 255;
+    data[i + 1] = g * 255;
+    data[i + 2] = b * 255;
+    data[i + 3] = a * 255;
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,248 @@
+// Camera selection and the optional track features (torch, hardware zoom,
+// focus/exposure/white balance modes) that only some devices expose through
+// MediaStreamTrack capabilities.
+
+export type ResolutionPreset = 'auto' | '720p' | '1080p' | '4k';
+
+export interface CameraPreferences {
+  // Empty means "let the browser pick a rear camera"
+  deviceId: string;
+  resolution: ResolutionPreset;
+  // 0 means the browser default
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: '',
+  resolution: 'auto',
+  frameRate: 0,
+};
+
+export const RESOLUTION_PRESETS: { value: ResolutionPreset; label: string; width?: number; height?: number }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: '720p', label: '720p', width: 1280, height: 720 },
+  { value: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { value: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export const FRAME_RATES = [15, 24, 30, 60];
+
+// Range capabilities as reported by getCapabilities()
+export interface CapabilityRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Auto controls that can be held steady while drawing
+export type LockableControl = 'focus' | 'exposure' | 'whiteBalance';
+
+export const LOCKABLE_CONTROLS: { control: LockableControl; label: string }[] = [
+  { control: 'focus', label: 'Focus' },
+  { control: 'exposure', label: 'Exposure' },
+  { control: 'whiteBalance', label: 'White balance' },
+];
+
+// What the running track supports, read once per stream
+export interface CameraFeatures {
+  torch: boolean;
+  zoom?: CapabilityRange;
+  maxWidth?: number;
+  maxHeight?: number;
+  maxFrameRate?: number;
+  // Modes per control, e.g. ['continuous', 'manual', 'single-shot']; empty when unsupported
+  modes: Record<LockableControl, string[]>;
+  pointsOfInterest: boolean;
+}
+
+export type CameraLocks = Record<LockableControl, boolean>;
+
+export const NO_CAMERA_LOCKS: CameraLocks = { focus: false, exposure: false, whiteBalance: false };
+
+// These are part of the Image Capture spec and missing from lib.dom
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min?: number; max?: number; step?: number };
+  focusMode?: string[];
+  exposureMode?: string[];
+  whiteBalanceMode?: string[];
+}
+
+interface ExtendedSettings extends MediaTrackSettings {
+  torch?: boolean;
+  zoom?: number;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+
+const CONSTRAINT_NAMES: Record<LockableControl, string> = {
+  focus: 'focusMode',
+  exposure: 'exposureMode',
+  whiteBalance: 'whiteBalanceMode',
+};
+
+const isResolutionPreset = (value: unknown): value is ResolutionPreset =>
+  RESOLUTION_PRESETS.some(preset => preset.value === value);
+
+export const NO_CAMERA_FEATURES: CameraFeatures = {
+  torch: false,
+  modes: { focus: [], exposure: [], whiteBalance: [] },
+  pointsOfInterest: false,
+};
+
+// Validate saved camera preferences, falling back to defaults field by field
+export const parseCameraPreferences = (value: unknown): CameraPreferences => {
+  if (!value || typeof value !== 'object') return DEFAULT_CAMERA_PREFERENCES;
+  const parsed = value as Record<string, unknown>;
+  return {
+    deviceId: typeof parsed.deviceId === 'string' ? parsed.deviceId : '',
+    resolution: isResolutionPreset(parsed.resolution) ? parsed.resolution : 'auto',
+    frameRate: typeof parsed.frameRate === 'number' && FRAME_RATES.includes(parsed.frameRate) ? parsed.frameRate : 0,
+  };
+};
+
+// Resolution and frame rate are "ideal" so a camera that can't meet them still opens
+const qualityConstraints = (preferences: CameraPreferences): MediaTrackConstraints => {
+  const preset = RESOLUTION_PRESETS.find(item => item.value === preferences.resolution);
+  return {
+    ...(preset?.width && preset.height
+      ? { width: { ideal: preset.width }, height: { ideal: preset.height } }
+      : {}),
+    ...(preferences.frameRate ? { frameRate: { ideal: preferences.frameRate } } : {}),
+  };
+};
+
+// Open the preferred camera. Falls back to the rear camera chain when the saved
+// device is gone (unplugged, or ids reset after clearing site data).
+export const openCamera = async (preferences: CameraPreferences): Promise<MediaStream> => {
+  const quality = qualityConstraints(preferences);
+
+  if (preferences.deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: { ...quality, deviceId: { exact: preferences.deviceId } },
+      });
+    } catch (deviceError) {
+      console.log('Saved camera failed, falling back to rear camera...', deviceError);
+    }
+  }
+
+  // Try back camera first (exact)
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { ...quality, facingMode: { exact: 'environment' } },
+    });
+  } catch (backCameraError) {
+    console.log('Back camera (exact) failed, trying fallback...', backCameraError);
+  }
+
+  // Fallback to preferred back camera
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { ...quality, facingMode: 'environment' },
+    });
+  } catch (fallbackError) {
+    console.log('Back camera (preferred) failed, trying any camera...', fallbackError);
+  }
+
+  // Final fallback to any camera
+  return navigator.mediaDevices.getUserMedia({ video: true });
+};
+
+// Video inputs; labels are only filled in once camera permission was granted
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+export const getCameraFeatures = (track: MediaStreamTrack): CameraFeatures => {
+  // Firefox has no getCapabilities at all
+  if (typeof track.getCapabilities !== 'function') {
+    return { ...NO_CAMERA_FEATURES };
+  }
+  const capabilities = track.getCapabilities() as ExtendedCapabilities;
+  const zoom = capabilities.zoom;
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom && typeof zoom.min === 'number' && typeof zoom.max === 'number' && zoom.max > zoom.min
+      ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 }
+      : undefined,
+    maxWidth: capabilities.width?.max,
+    maxHeight: capabilities.height?.max,
+    maxFrameRate: capabilities.frameRate?.max,
+    modes: {
+      focus: capabilities.focusMode ?? [],
+      exposure: capabilities.exposureMode ?? [],
+      whiteBalance: capabilities.whiteBalanceMode ?? [],
+    },
+    // There is no capability for points of interest; browsers that have it report it in settings
+    pointsOfInterest: 'pointsOfInterest' in (track.getSettings() as ExtendedSettings),
+  };
+};
+
+// Locking holds the current value: 'manual' freezes it, 'single-shot' settles once and holds
+const lockedMode = (modes: string[]) =>
+  modes.includes('manual') ? 'manual' : modes.includes('single-shot') ? 'single-shot' : undefined;
+
+export const canLock = (features: CameraFeatures, control: LockableControl) =>
+  !!lockedMode(features.modes[control]) && features.modes[control].includes('continuous');
+
+// Apply lock state for every supported control in one go
+export const applyCameraLocks = (track: MediaStreamTrack, features: CameraFeatures, locks: CameraLocks) => {
+  const constraints: Record<string, string> = {};
+  LOCKABLE_CONTROLS.forEach(({ control }) => {
+    if (!canLock(features, control)) return;
+    constraints[CONSTRAINT_NAMES[control]] = locks[control] ? lockedMode(features.modes[control])! : 'continuous';
+  });
+  if (Object.keys(constraints).length === 0) return Promise.resolve();
+  return track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+};
+
+// Focus (and meter exposure) on a point of the frame, given in 0..1 video coordinates.
+// Locked controls stay locked on the new point; the others go back to continuous.
+export const focusAtPoint = (
+  track: MediaStreamTrack,
+  features: CameraFeatures,
+  locks: CameraLocks,
+  point: { x: number; y: number },
+) => {
+  const constraints: Record<string, unknown> = { pointsOfInterest: [point] };
+  (['focus', 'exposure'] as const).forEach(control => {
+    const modes = features.modes[control];
+    const mode = locks[control] || !modes.includes('continuous') ? 'single-shot' : 'continuous';
+    if (modes.includes(mode)) {
+      constraints[CONSTRAINT_NAMES[control]] = mode;
+    }
+  });
+  return track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+};
+
+// Map a point inside an object-fit: cover box to 0..1 coordinates of the video frame
+export const coverPointToFrame = (
+  x: number,
+  y: number,
+  boxWidth: number,
+  boxHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+) => {
+  const scale = Math.max(boxWidth / videoWidth, boxHeight / videoHeight);
+  const offsetX = (boxWidth - videoWidth * scale) / 2;
+  const offsetY = (boxHeight - videoHeight * scale) / 2;
+  const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+  return {
+    x: clamp01((x - offsetX) / (videoWidth * scale)),
+    y: clamp01((y - offsetY) / (videoHeight * scale)),
+  };
+};
+
+// Current zoom level of the track, if it reports one
+export const getTrackZoom = (track: MediaStreamTrack): number | undefined => {
+  const settings = track.getSettings() as ExtendedSettings;
+  return typeof settings.zoom === 'number' ? settings.zoom : undefined;
+};
+
+export const setTorch = (track: MediaStreamTrack, on: boolean) =>
+  track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+
+export const setHardwareZoom = (track: MediaStreamTrack, zoom: number) =>
+  track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] });
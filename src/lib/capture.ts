@@ -0,0 +1,236 @@
+// Render the live view into a canvas: the camera frame as the <video> shows
+// it (object-fit: cover, camera transform) and optionally the overlay layers
+// on top, using the same transform maths as the CSS. Used for snapshots and
+// time-lapse frames.
+
+import { renderAdjustedImage, type BlendMode, type ImageAdjustments } from './adjustments';
+import { fitLayerBox } from './layers';
+import { projectPoint, type Point, type Quad } from './perspective';
+import { applyCanvasTransform, type Transform } from './transform';
+
+export interface CaptureLayer {
+  url: string;
+  opacity: number;
+  adjustments: ImageAdjustments;
+  transform: Transform;
+  // Natural size of the reference, used to fit the layer box like the stage does
+  width: number;
+  height: number;
+}
+
+export interface CaptureOptions {
+  video: HTMLVideoElement;
+  // Size of the stage (the visible camera area) in CSS pixels
+  stageWidth: number;
+  stageHeight: number;
+  cameraTransform: Transform;
+  // Bottom to top; an empty list gives a camera-only snapshot
+  layers: CaptureLayer[];
+}
+
+export interface CaptureResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Largest edge of the output, to keep memory in check on 4K cameras
+const MAX_CAPTURE_DIMENSION = 4096;
+// Grid used to approximate the perspective warp with affine triangles
+const WARP_SUBDIVISIONS = 12;
+
+export const loadImage = async (url: string) => {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  return image;
+};
+
+// Layer image as it is drawn: loaded, with its adjustments applied
+export const loadLayerImage = async (layer: CaptureLayer) =>
+  renderAdjustedImage(await loadImage(layer.url), layer.adjustments);
+
+// Drawn layer images are either the loaded image or an adjusted copy
+type LayerImage = HTMLImageElement | HTMLCanvasElement;
+
+// mix-blend-mode on screen, globalCompositeOperation on canvas
+const COMPOSITE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  difference: 'difference',
+};
+
+// Draw the source triangle of the image onto the destination triangle
+const drawTriangle = (
+  ctx: CanvasRenderingContext2D,
+  image: LayerImage,
+  [s0, s1, s2]: Point[],
+  [d0, d1, d2]: Point[],
+) => {
+  const det = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+  if (det === 0) return;
+  const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / det;
+  const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / det;
+  const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / det;
+  const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / det;
+  const e = d0.x - a * s0.x - c * s0.y;
+  const f = d0.y - b * s0.x - d * s0.y;
+
+  // Grow the clip slightly around its centre so neighbouring triangles don't leave hairline seams
+  const cx = (d0.x + d1.x + d2.x) / 3;
+  const cy = (d0.y + d1.y + d2.y) / 3;
+  const grow = (p: Point) => {
+    const length = Math.hypot(p.x - cx, p.y - cy) || 1;
+    return { x: p.x + (p.x - cx) / length * 0.5, y: p.y + (p.y - cy) / length * 0.5 };
+  };
+  const [g0, g1, g2] = [d0, d1, d2].map(grow);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(g0.x, g0.y);
+  ctx.lineTo(g1.x, g1.y);
+  ctx.lineTo(g2.x, g2.y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, d, e, f);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+// Canvas 2D has no perspective transform, so the corner-pin warp is drawn as
+// a mesh of small affine triangles
+const drawWarpedImage = (ctx: CanvasRenderingContext2D, image: LayerImage, quad: Quad, width: number, height: number) => {
+  const pixelQuad = quad.map(point => ({ x: point.x * width, y: point.y * height })) as Quad;
+  const sourceWidth = image.width;
+  const sourceHeight = image.height;
+
+  for (let row = 0; row < WARP_SUBDIVISIONS; row++) {
+    for (let col = 0; col < WARP_SUBDIVISIONS; col++) {
+      const u0 = col / WARP_SUBDIVISIONS;
+      const u1 = (col + 1) / WARP_SUBDIVISIONS;
+      const v0 = row / WARP_SUBDIVISIONS;
+      const v1 = (row + 1) / WARP_SUBDIVISIONS;
+      const source = (u: number, v: number) => ({ x: u * sourceWidth, y: v * sourceHeight });
+      const target = (u: number, v: number) => projectPoint(pixelQuad, u, v);
+
+      drawTriangle(ctx, image,
+        [source(u0, v0), source(u1, v0), source(u1, v1)],
+        [target(u0, v0), target(u1, v0), target(u1, v1)]);
+      drawTriangle(ctx, image,
+        [source(u0, v0), source(u1, v1), source(u0, v1)],
+        [target(u0, v0), target(u1, v1), target(u0, v1)]);
+    }
+  }
+};
+
+// Draw the view into a width×height canvas, fitting the stage inside it
+// (letterboxed when the aspect ratios differ). Layer images must be loaded
+// with loadLayerImage, in the same order as options.layers.
+export const drawView = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  { video, stageWidth, stageHeight, cameraTransform, layers }: CaptureOptions,
+  images: LayerImage[],
+) => {
+  const videoWidth = video.videoWidth;
+  const videoHeight = video.videoHeight;
+  const pixelRatio = Math.min(width / stageWidth, height / stageHeight);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate((width - stageWidth * pixelRatio) / 2, (height - stageHeight * pixelRatio) / 2);
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.imageSmoothingQuality = 'high';
+
+  // Anything the camera transform pushes outside the stage is hidden on screen too
+  ctx.beginPath();
+  ctx.rect(0, 0, stageWidth, stageHeight);
+  ctx.clip();
+
+  // The stage is transformed around its centre, video and layers inside it
+  applyCanvasTransform(ctx, cameraTransform, stageWidth / 2, stageHeight / 2);
+
+  // object-fit: cover crops the frame evenly on both sides
+  const coverScale = Math.max(stageWidth / videoWidth, stageHeight / videoHeight);
+  const drawnWidth = videoWidth * coverScale;
+  const drawnHeight = videoHeight * coverScale;
+  ctx.drawImage(video, (stageWidth - drawnWidth) / 2, (stageHeight - drawnHeight) / 2, drawnWidth, drawnHeight);
+
+  // Warped layers are drawn opaque on a scratch canvas first; the mesh triangles
+  // overlap slightly, which would show as lines if each one was translucent
+  let scratch: CanvasRenderingContext2D | null = null;
+
+  layers.forEach((layer, index) => {
+    const image = images[index];
+    const box = fitLayerBox(stageWidth, stageHeight, layer.width, layer.height);
+    const corners = layer.transform.corners;
+
+    if (corners) {
+      if (!scratch) {
+        const scratchCanvas = document.createElement('canvas');
+        scratchCanvas.width = width;
+        scratchCanvas.height = height;
+        scratch = scratchCanvas.getContext('2d');
+        if (!scratch) throw new Error('Canvas is not available');
+      }
+      scratch.setTransform(1, 0, 0, 1, 0, 0);
+      scratch.clearRect(0, 0, width, height);
+      scratch.setTransform(ctx.getTransform());
+      scratch.translate(box.left, box.top);
+      applyCanvasTransform(scratch, layer.transform, box.width / 2, box.height / 2);
+      drawWarpedImage(scratch, image, corners, box.width, box.height);
+
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[layer.adjustments.blendMode];
+      ctx.drawImage(scratch.canvas, 0, 0);
+      ctx.restore();
+      return;
+    }
+
+    ctx.save();
+    ctx.translate(box.left, box.top);
+    applyCanvasTransform(ctx, layer.transform, box.width / 2, box.height / 2);
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[layer.adjustments.blendMode];
+    ctx.drawImage(image, 0, 0, box.width, box.height);
+    ctx.restore();
+  });
+
+  ctx.restore();
+};
+
+// Canvas size that keeps the camera's own resolution, capped at maxDimension
+export const captureSize = (options: CaptureOptions, maxDimension: number) => {
+  const { video, stageWidth, stageHeight } = options;
+  if (!video.videoWidth || !video.videoHeight || !stageWidth || !stageHeight) {
+    throw new Error('The camera is not ready yet');
+  }
+  const coverScale = Math.max(stageWidth / video.videoWidth, stageHeight / video.videoHeight);
+  const pixelRatio = Math.min(1 / coverScale, maxDimension / Math.max(stageWidth, stageHeight));
+  return {
+    width: Math.round(stageWidth * pixelRatio),
+    height: Math.round(stageHeight * pixelRatio),
+  };
+};
+
+export const captureSnapshot = async (options: CaptureOptions): Promise<CaptureResult> => {
+  const { width, height } = captureSize(options, MAX_CAPTURE_DIMENSION);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const images = await Promise.all(options.layers.map(loadLayerImage));
+  drawView(ctx, width, height, options, images);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!blob) throw new Error('Could not encode the snapshot');
+  return { blob, width, height };
+};
@@ -0,0 +1,286 @@
+// Pure feature tracking behind the tracking worker. Corners are picked in an
+// anchor frame (Shi-Tomasi), each keeps a small normalised patch as its
+// template, and every new frame is searched around the predicted position for
+// the best match (normalised cross-correlation). The matches give the paper's
+// motion as a least-squares similarity with outliers removed.
+// Frames are single-channel Float32Arrays (0..255) of width*height pixels.
+
+import { applySimilarity, IDENTITY_SIMILARITY, invertSimilarity, type Similarity } from './tracking';
+
+export interface GrayFrame {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export interface Feature {
+  // Position in the anchor frame
+  anchorX: number;
+  anchorY: number;
+  // Zero-mean, unit-variance patch around it
+  template: Float32Array;
+}
+
+export interface TrackerState {
+  width: number;
+  height: number;
+  features: Feature[];
+  // Last good estimate, used to predict where features are now
+  motion: Similarity;
+  lost: boolean;
+}
+
+export type TrackResult = { status: 'tracking'; motion: Similarity } | { status: 'lost' };
+
+const MAX_FEATURES = 48;
+// Features closer than this (in frame pixels) crowd each other out
+const MIN_FEATURE_DISTANCE = 10;
+const PATCH_RADIUS = 4;
+const PATCH_SIZE = (PATCH_RADIUS * 2 + 1) ** 2;
+// How far a feature is searched for around its predicted position
+const SEARCH_RADIUS = 10;
+// Wider search while lost, to pick the paper up again after a bigger bump
+const RECOVERY_SEARCH_RADIUS = 24;
+const MIN_CORRELATION = 0.8;
+// Residual (frame pixels) beyond which a match is treated as an outlier
+const MAX_RESIDUAL = 1.5;
+// Fewer agreeing matches than this and the estimate can't be trusted
+const MIN_INLIERS = 6;
+// Top up the features from the current frame when fewer than this share still match
+const REFRESH_RATIO = 0.5;
+
+export const toGrayFrame = (image: ImageData): GrayFrame => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width, height, data: gray };
+};
+
+// Shi-Tomasi corner strength (smaller eigenvalue of the structure tensor)
+// over a 5x5 window, for every pixel away from the border
+const cornerStrength = ({ width, height, data }: GrayFrame) => {
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      gx[i] = (data[i + 1] - data[i - 1]) / 2;
+      gy[i] = (data[i + width] - data[i - width]) / 2;
+    }
+  }
+
+  const strength = new Float32Array(width * height);
+  const margin = PATCH_RADIUS + 2;
+  for (let y = margin; y < height - margin; y++) {
+    for (let x = margin; x < width - margin; x++) {
+      let xx = 0;
+      let yy = 0;
+      let xy = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const i = (y + dy) * width + x + dx;
+          xx += gx[i] * gx[i];
+          yy += gy[i] * gy[i];
+          xy += gx[i] * gy[i];
+        }
+      }
+      strength[y * width + x] = (xx + yy) / 2 - Math.sqrt(((xx - yy) / 2) ** 2 + xy * xy);
+    }
+  }
+  return strength;
+};
+
+// Strongest corners, spread out over the frame
+export const detectCorners = (frame: GrayFrame, maxCorners: number, exclude: { x: number; y: number }[] = []) => {
+  const strength = cornerStrength(frame);
+  let max = 0;
+  for (let i = 0; i < strength.length; i++) max = Math.max(max, strength[i]);
+  if (max <= 0) return [];
+
+  // Weak corners are noise on blank paper
+  const threshold = max * 0.05;
+  const candidates: { x: number; y: number; value: number }[] = [];
+  for (let i = 0; i < strength.length; i++) {
+    if (strength[i] > threshold) {
+      candidates.push({ x: i % frame.width, y: Math.floor(i / frame.width), value: strength[i] });
+    }
+  }
+  candidates.sort((a, b) => b.value - a.value);
+
+  const picked: { x: number; y: number }[] = [];
+  const isFree = (x: number, y: number) => [...exclude, ...picked].every(point =>
+    Math.hypot(point.x - x, point.y - y) >= MIN_FEATURE_DISTANCE);
+  for (const candidate of candidates) {
+    if (picked.length >= maxCorners) break;
+    if (isFree(candidate.x, candidate.y)) picked.push({ x: candidate.x, y: candidate.y });
+  }
+  return picked;
+};
+
+// Normalised patch centred on (x, y), or null when it is flat or off the frame
+const readPatch = ({ width, height, data }: GrayFrame, x: number, y: number): Float32Array | null => {
+  if (x < PATCH_RADIUS || y < PATCH_RADIUS || x >= width - PATCH_RADIUS || y >= height - PATCH_RADIUS) return null;
+  const patch = new Float32Array(PATCH_SIZE);
+  let sum = 0;
+  let k = 0;
+  for (let dy = -PATCH_RADIUS; dy <= PATCH_RADIUS; dy++) {
+    for (let dx = -PATCH_RADIUS; dx <= PATCH_RADIUS; dx++) {
+      patch[k] = data[(y + dy) * width + x + dx];
+      sum += patch[k];
+      k++;
+    }
+  }
+  const mean = sum / PATCH_SIZE;
+  let variance = 0;
+  for (let i = 0; i < PATCH_SIZE; i++) {
+    patch[i] -= mean;
+    variance += patch[i] * patch[i];
+  }
+  const deviation = Math.sqrt(variance / PATCH_SIZE);
+  if (deviation < 2) return null;
+  for (let i = 0; i < PATCH_SIZE; i++) patch[i] /= deviation;
+  return patch;
+};
+
+// Normalised cross-correlation of the template with the patch at (x, y), -1 off
+// the frame. Reads the frame directly: this runs for every search position.
+const correlationAt = ({ width, height, data }: GrayFrame, template: Float32Array, x: number, y: number) => {
+  if (x < PATCH_RADIUS || y < PATCH_RADIUS || x >= width - PATCH_RADIUS || y >= height - PATCH_RADIUS) return -1;
+  let sum = 0;
+  let sumSquares = 0;
+  let dot = 0;
+  let k = 0;
+  for (let dy = -PATCH_RADIUS; dy <= PATCH_RADIUS; dy++) {
+    for (let dx = -PATCH_RADIUS; dx <= PATCH_RADIUS; dx++) {
+      const value = data[(y + dy) * width + x + dx];
+      sum += value;
+      sumSquares += value * value;
+      // The template has zero mean, so the patch mean drops out of the dot product
+      dot += template[k++] * value;
+    }
+  }
+  const variance = sumSquares / PATCH_SIZE - (sum / PATCH_SIZE) ** 2;
+  return variance < 4 ? -1 : dot / (PATCH_SIZE * Math.sqrt(variance));
+};
+
+// Best match of the template within radius of (x, y), refined to sub-pixel
+const findFeature = (frame: GrayFrame, template: Float32Array, x: number, y: number, radius: number) => {
+  const cx = Math.round(x);
+  const cy = Math.round(y);
+  const size = radius * 2 + 1;
+  const scores = new Float32Array(size * size).fill(-1);
+  let best = { x: 0, y: 0, score: -1 };
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const score = correlationAt(frame, template, cx + dx, cy + dy);
+      scores[(dy + radius) * size + dx + radius] = score;
+      if (score > best.score) best = { x: dx, y: dy, score };
+    }
+  }
+  if (best.score < MIN_CORRELATION) return null;
+
+  // Fit a parabola through the best score and its neighbours on each axis
+  const at = (dx: number, dy: number) => {
+    const ix = dx + radius;
+    const iy = dy + radius;
+    return ix < 0 || iy < 0 || ix >= size || iy >= size ? -1 : scores[iy * size + ix];
+  };
+  const refine = (before: number, centre: number, after: number) => {
+    const denominator = before - 2 * centre + after;
+    return before < 0 || after < 0 || denominator >= 0 ? 0 : Math.max(-0.5, Math.min(0.5, (before - after) / (2 * denominator)));
+  };
+  return {
+    x: cx + best.x + refine(at(best.x - 1, best.y), best.score, at(best.x + 1, best.y)),
+    y: cy + best.y + refine(at(best.x, best.y - 1), best.score, at(best.x, best.y + 1)),
+  };
+};
+
+// Least-squares similarity taking each from point to its to point
+const fitSimilarity = (pairs: { from: { x: number; y: number }; to: { x: number; y: number } }[]): Similarity => {
+  const n = pairs.length;
+  const fromX = pairs.reduce((sum, pair) => sum + pair.from.x, 0) / n;
+  const fromY = pairs.reduce((sum, pair) => sum + pair.from.y, 0) / n;
+  const toX = pairs.reduce((sum, pair) => sum + pair.to.x, 0) / n;
+  const toY = pairs.reduce((sum, pair) => sum + pair.to.y, 0) / n;
+  let a = 0;
+  let b = 0;
+  let norm = 0;
+  pairs.forEach(({ from, to }) => {
+    const px = from.x - fromX;
+    const py = from.y - fromY;
+    const qx = to.x - toX;
+    const qy = to.y - toY;
+    a += px * qx + py * qy;
+    b += px * qy - py * qx;
+    norm += px * px + py * py;
+  });
+  if (norm === 0) return { ...IDENTITY_SIMILARITY, x: toX - fromX, y: toY - fromY };
+
+  const scale = Math.hypot(a, b) / norm;
+  const rotation = Math.atan2(b, a) * 180 / Math.PI;
+  const moved = applySimilarity({ scale, rotation, x: 0, y: 0 }, fromX, fromY);
+  return { scale, rotation, x: toX - moved.x, y: toY - moved.y };
+};
+
+// Features from corners of the frame, placed in anchor coordinates through
+// the inverse of the current motion
+const createFeatures = (frame: GrayFrame, corners: { x: number; y: number }[], motion: Similarity): Feature[] => {
+  const toAnchor = invertSimilarity(motion);
+  return corners.flatMap(corner => {
+    const template = readPatch(frame, corner.x, corner.y);
+    if (!template) return [];
+    const anchor = applySimilarity(toAnchor, corner.x, corner.y);
+    return [{ anchorX: anchor.x, anchorY: anchor.y, template }];
+  });
+};
+
+export const createTracker = (frame: GrayFrame): TrackerState => ({
+  width: frame.width,
+  height: frame.height,
+  features: createFeatures(frame, detectCorners(frame, MAX_FEATURES), IDENTITY_SIMILARITY),
+  motion: IDENTITY_SIMILARITY,
+  lost: false,
+});
+
+// Follow the features into a new frame. Updates the tracker in place.
+export const trackFrame = (tracker: TrackerState, frame: GrayFrame): TrackResult => {
+  const radius = tracker.lost ? RECOVERY_SEARCH_RADIUS : SEARCH_RADIUS;
+  const matches = tracker.features.flatMap((feature, index) => {
+    const predicted = applySimilarity(tracker.motion, feature.anchorX, feature.anchorY);
+    const found = findFeature(frame, feature.template, predicted.x, predicted.y, radius);
+    return found ? [{ index, from: { x: feature.anchorX, y: feature.anchorY }, to: found }] : [];
+  });
+
+  // Fit, drop the matches that disagree (features on a moving hand or pen), refit
+  let inliers = matches;
+  let motion = tracker.motion;
+  for (let round = 0; round < 3 && inliers.length >= MIN_INLIERS; round++) {
+    motion = fitSimilarity(inliers);
+    const fitted = motion;
+    inliers = inliers.filter(({ from, to }) => {
+      const expected = applySimilarity(fitted, from.x, from.y);
+      return Math.hypot(expected.x - to.x, expected.y - to.y) <= MAX_RESIDUAL;
+    });
+  }
+
+  if (inliers.length < MIN_INLIERS) {
+    tracker.lost = true;
+    return { status: 'lost' };
+  }
+  tracker.motion = fitSimilarity(inliers);
+  tracker.lost = false;
+
+  // Features hidden by a hand or drawn over stop matching; replace them with
+  // fresh corners so tracking lasts the whole session
+  if (inliers.length < tracker.features.length * REFRESH_RATIO) {
+    const kept = inliers.map(({ index }) => tracker.features[index]);
+    const keptPositions = inliers.map(({ to }) => to);
+    const corners = detectCorners(frame, MAX_FEATURES - kept.length, keptPositions);
+    tracker.features = [...kept, ...createFeatures(frame, corners, tracker.motion)];
+  }
+
+  return { status: 'tracking', motion: tracker.motion };
+};
@@ -0,0 +1,55 @@
+// Drawing grid (the classic "grid method"): the same rows and columns are
+// shown on the reference and on the live camera view so cells can be matched.
+
+export interface GridSettings {
+  // Grid drawn on the selected layer, moving with its transform
+  showOnImage: boolean;
+  // Matching grid drawn over the camera view
+  showOnCamera: boolean;
+  rows: number;
+  columns: number;
+  color: string;
+  // Line width in screen pixels
+  thickness: number;
+  labels: boolean;
+}
+
+export const GRID_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#000000', '#ffffff'];
+
+export const MAX_GRID_CELLS = 26;
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  showOnImage: false,
+  showOnCamera: false,
+  rows: 4,
+  columns: 4,
+  color: GRID_COLORS[0],
+  thickness: 1,
+  labels: true,
+};
+
+const clampCount = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.max(1, Math.min(MAX_GRID_CELLS, Math.round(value)))
+    : fallback;
+
+// Validate saved grid settings, falling back to defaults field by field
+export const parseGridSettings = (value: unknown): GridSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_GRID_SETTINGS;
+  const parsed = value as Record<string, unknown>;
+  return {
+    showOnImage: parsed.showOnImage === true,
+    showOnCamera: parsed.showOnCamera === true,
+    rows: clampCount(parsed.rows, DEFAULT_GRID_SETTINGS.rows),
+    columns: clampCount(parsed.columns, DEFAULT_GRID_SETTINGS.columns),
+    color: typeof parsed.color === 'string' ? parsed.color : DEFAULT_GRID_SETTINGS.color,
+    thickness: typeof parsed.thickness === 'number' && parsed.thickness > 0
+      ? Math.min(6, parsed.thickness)
+      : DEFAULT_GRID_SETTINGS.thickness,
+    labels: parsed.labels !== false,
+  };
+};
+
+// Spreadsheet-style cell name: columns are letters, rows are numbers (A1, B1, ...)
+export const cellLabel = (row: number, column: number) =>
+  `${String.fromCharCode(65 + column)}${row + 1}`;
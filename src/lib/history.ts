@@ -0,0 +1,76 @@
+// Undo/redo history for alignment edits. Each step stores the camera transform
+// and the editable properties of every layer, keyed by layer id, so undoing
+// never brings back removed layers or drops ones added since.
+import { clampLayerOpacity, type OverlayLayer } from './layers';
+import { sanitizeTransform, type Transform } from './transform';
+
+export interface LayerEditState {
+  transform: Transform;
+  opacity: number;
+  visible: boolean;
+}
+
+export interface EditSnapshot {
+  cameraTransform: Transform;
+  layers: Record<string, LayerEditState>;
+}
+
+export interface EditHistory {
+  // Oldest first; the last entry is what undo restores
+  past: EditSnapshot[];
+  // Next first; the first entry is what redo restores
+  future: EditSnapshot[];
+}
+
+// Steps kept (and saved with the session) in each direction
+export const HISTORY_LIMIT = 20;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const takeEditSnapshot = (layers: OverlayLayer[], cameraTransform: Transform): EditSnapshot => ({
+  cameraTransform,
+  layers: Object.fromEntries(layers.map(layer => [
+    layer.id,
+    { transform: layer.transform, opacity: layer.opacity, visible: layer.visible },
+  ])),
+});
+
+export const snapshotsEqual = (a: EditSnapshot, b: EditSnapshot) => JSON.stringify(a) === JSON.stringify(b);
+
+// Put the snapshot's values back on the layers that still exist
+export const applyEditSnapshot = (layers: OverlayLayer[], snapshot: EditSnapshot): OverlayLayer[] =>
+  layers.map(layer => (snapshot.layers[layer.id] ? { ...layer, ...snapshot.layers[layer.id] } : layer));
+
+// Record a new step; anything that was undone can no longer be redone
+export const pushHistory = (history: EditHistory, snapshot: EditSnapshot): EditHistory => ({
+  past: [...history.past, snapshot].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+const parseSnapshot = (value: unknown): EditSnapshot | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { cameraTransform, layers } = value as Partial<EditSnapshot>;
+  if (!cameraTransform || typeof cameraTransform !== 'object' || !layers || typeof layers !== 'object') return null;
+  return {
+    cameraTransform: sanitizeTransform(cameraTransform),
+    layers: Object.fromEntries(Object.entries(layers).flatMap(([id, state]) =>
+      state && typeof state === 'object' && state.transform
+        ? [[id, {
+            transform: sanitizeTransform(state.transform),
+            opacity: clampLayerOpacity(state.opacity),
+            visible: state.visible !== false,
+          }]]
+        : [])),
+  };
+};
+
+// Validate a saved history, dropping malformed steps
+export const parseHistory = (value: unknown): EditHistory => {
+  if (!value || typeof value !== 'object') return EMPTY_HISTORY;
+  const { past, future } = value as Partial<Record<keyof EditHistory, unknown>>;
+  const steps = (list: unknown) =>
+    Array.isArray(list)
+      ? list.map(parseSnapshot).filter((step): step is EditSnapshot => step !== null).slice(-HISTORY_LIMIT)
+      : [];
+  return { past: steps(past), future: steps(future) };
+};
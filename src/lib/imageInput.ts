@@ -0,0 +1,98 @@
+// Every way a reference image can come in (file picker, clipboard paste,
+// drag-and-drop, the system share sheet and the ?image= URL parameter) ends up
+// as a File that goes through validateImageFile before it is stored.
+// Nothing is uploaded: shared and fetched images are only kept on the device.
+
+// Larger files are almost certainly not a reference photo and would exhaust memory on phones
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+
+// Where the service worker leaves an image shared from another app (see src/sw.js)
+const SHARE_TARGET_CACHE = 'tracecam-share-target';
+const SHARED_IMAGE_URL = '/shared-image';
+// Query parameter the service worker redirects to after receiving a share
+export const SHARED_PARAM = 'shared';
+// Query parameter with the address of an image to open
+export const IMAGE_URL_PARAM = 'image';
+
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+  }
+}
+
+// Throws ImageInputError when the file can't be a usable reference image
+export const validateImageFile = (file: File) => {
+  if (!file.type.startsWith('image/')) {
+    throw new ImageInputError(`"${file.name || 'This file'}" is not an image`);
+  }
+  if (file.size === 0) {
+    throw new ImageInputError('This image is empty');
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new ImageInputError('This image is too large (the limit is 50 MB)');
+  }
+};
+
+// Clipboard contents and drops carry no useful name for screenshots
+const withName = (file: File, fallback: string) =>
+  file.name && file.name !== 'image.png'
+    ? file
+    : new File([file], `${fallback}.${file.type.split('/')[1] || 'png'}`, { type: file.type });
+
+const timestamp = () => new Date().toLocaleString();
+
+// First image on the clipboard of a paste event
+export const imageFromClipboard = (data: DataTransfer | null): File | null => {
+  const file = Array.from(data?.files ?? []).find(item => item.type.startsWith('image/'));
+  return file ? withName(file, `Pasted ${timestamp()}`) : null;
+};
+
+// First file of a drop, image or not, so the caller can explain what's wrong with it
+export const fileFromDrop = (data: DataTransfer | null): File | null => data?.files[0] ?? null;
+
+// True while something being dragged over the page contains files
+export const isFileDrag = (data: DataTransfer | null) => !!data && Array.from(data.types).includes('Files');
+
+// An image address from a link, resolved against the app's own address
+export const parseImageUrl = (address: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(address, window.location.href);
+  } catch {
+    throw new ImageInputError('The image address is not valid');
+  }
+  if (!['http:', 'https:', 'data:', 'blob:'].includes(url.protocol)) {
+    throw new ImageInputError('The image address is not valid');
+  }
+  return url;
+};
+
+// Download an image from a URL. It is fetched by the browser and kept locally;
+// other sites only allow this when they send CORS headers.
+export const fetchImageFromUrl = async (url: URL): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { credentials: 'omit' });
+  } catch {
+    throw new ImageInputError('The image could not be downloaded. The site may not allow it.');
+  }
+  if (!response.ok) {
+    throw new ImageInputError(`The image could not be downloaded (error ${response.status})`);
+  }
+  const blob = await response.blob();
+  const name = decodeURIComponent(url.pathname.split('/').pop() || '') || url.hostname || 'Linked image';
+  return new File([blob], name, { type: blob.type });
+};
+
+// Image shared to TraceCam from another app, removed from the cache as it is taken
+export const takeSharedImage = async (): Promise<File | null> => {
+  if (!('caches' in window)) return null;
+  const cache = await caches.open(SHARE_TARGET_CACHE);
+  const response = await cache.match(SHARED_IMAGE_URL);
+  if (!response) return null;
+  await cache.delete(SHARED_IMAGE_URL);
+  const blob = await response.blob();
+  const name = decodeURIComponent(response.headers.get('X-File-Name') ?? '') || `Shared ${timestamp()}`;
+  return new File([blob], name, { type: blob.type });
+};
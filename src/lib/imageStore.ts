@@ -0,0 +1,444 @@
+// IndexedDB-backed storage for overlay reference images, progress snapshots
+// and time-lapse recordings.
+// localStorage can't hold image data (it overflows the quota after one photo),
+// so images live here as Blobs and only their ids are kept in localStorage.
+
+import type { ImageAdjustments } from './adjustments';
+import type { LineArtOptions } from './lineArt';
+import type { Transform } from './transform';
+
+const DB_NAME = 'tracecam';
+const DB_VERSION = 3;
+const IMAGE_STORE = 'images';
+// Added in version 2
+const SNAPSHOT_STORE = 'snapshots';
+// Added in version 3
+const RECORDING_STORE = 'recordings';
+
+// Longest edge of the copy that is actually drawn on screen
+const WORKING_MAX_DIMENSION = 2048;
+// Longest edge of the library thumbnail
+const THUMBNAIL_MAX_DIMENSION = 256;
+
+// Key used by early builds that tried to keep the data URL in localStorage
+const LEGACY_IMAGE_KEY = 'tracecam_overlay_image';
+
+// Alignment remembered per image, so switching references restores it
+export interface ImageSettings {
+  imagePosition: Transform;
+  cameraTransform: Transform;
+  overlayOpacity: number;
+  // Missing on images saved before adjustments existed
+  adjustments?: ImageAdjustments;
+}
+
+// Derived line art version, kept next to the original
+export interface ProcessedImage {
+  blob: Blob;
+  options: LineArtOptions;
+  createdAt: number;
+}
+
+export interface StoredImage {
+  id: string;
+  name: string;
+  // Size of the original file in pixels
+  width: number;
+  height: number;
+  // File exactly as the user picked it
+  original: Blob;
+  // Downscaled copy used for rendering (same Blob as original when already small)
+  working: Blob;
+  // Small preview for the reference library (missing on images saved before the library existed)
+  thumbnail?: Blob;
+  settings?: ImageSettings;
+  processed?: ProcessedImage;
+  createdAt: number;
+}
+
+export type SnapshotVariant = 'camera' | 'overlay';
+
+// Captured camera frame, optionally with the overlay layers composited on top
+export interface Snapshot {
+  id: string;
+  variant: SnapshotVariant;
+  width: number;
+  height: number;
+  blob: Blob;
+  thumbnail: Blob;
+  createdAt: number;
+}
+
+// Encoded time-lapse video
+export interface Recording {
+  id: string;
+  blob: Blob;
+  // Number of samples taken and the seconds between them
+  frames: number;
+  interval: number;
+  withOverlay: boolean;
+  createdAt: number;
+}
+
+export type ImageStoreErrorReason = 'quota' | 'decode' | 'unsupported' | 'blocked' | 'unknown';
+
+export class ImageStoreError extends Error {
+  readonly reason: ImageStoreErrorReason;
+
+  constructor(reason: ImageStoreErrorReason, message: string) {
+    super(message);
+    this.name = 'ImageStoreError';
+    this.reason = reason;
+  }
+}
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException &&
+  (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Normalise anything IndexedDB throws into an ImageStoreError
+const toStoreError = (err: unknown): ImageStoreError => {
+  if (err instanceof ImageStoreError) return err;
+  if (isQuotaError(err)) {
+    return new ImageStoreError('quota', 'Not enough storage space on this device to save the image');
+  }
+  const message = err instanceof Error ? err.message : 'Unknown storage error';
+  return new ImageStoreError('unknown', message);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!('indexedDB' in window)) {
+    return Promise.reject(new ImageStoreError('unsupported', 'This browser cannot store images locally'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      let blocked = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'id' });
+        }
+      };
+      // A tab still running an older build holds the database open, so the
+      // upgrade waits until it closes; say so instead of hanging
+      request.onblocked = () => {
+        blocked = true;
+        reject(new ImageStoreError('blocked', 'TraceCam is open in another tab. Close it, then reload this one.'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after all once the other tab closed, but this call already gave up
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // A newer build in another tab wants to upgrade; step aside and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // Allow a later call to retry instead of caching the failure
+      dbPromise = null;
+      throw toStoreError(err);
+    });
+  }
+  return dbPromise;
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Ask the browser not to evict our data under storage pressure (best effort)
+const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (err) {
+    console.error('Persistent storage request failed', err);
+  }
+};
+
+// Draw the bitmap into a canvas no larger than maxDimension; returns null when
+// the bitmap already fits or the canvas is unavailable
+const renderScaled = async (bitmap: ImageBitmap, maxDimension: number, type: string) => {
+  const longestEdge = Math.max(bitmap.width, bitmap.height);
+  if (longestEdge <= maxDimension) return null;
+
+  const ratio = maxDimension / longestEdge;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * ratio));
+  canvas.height = Math.max(1, Math.round(bitmap.height * ratio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+};
+
+// Produce the copy that is rendered on screen plus a library thumbnail; large
+// photos are scaled down so decoding and compositing stay fast on phones
+const createDerivedCopies = async (file: Blob) => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (err) {
+    console.error('Failed to decode image', err);
+    throw new ImageStoreError('decode', 'This image could not be read');
+  }
+
+  try {
+    // Keep transparency for PNG/WebP/GIF sources, otherwise JPEG is much smaller
+    const outputType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const working = await renderScaled(bitmap, WORKING_MAX_DIMENSION, outputType);
+    const thumbnail = await renderScaled(bitmap, THUMBNAIL_MAX_DIMENSION, outputType);
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      working: working ?? file,
+      thumbnail: thumbnail ?? working ?? file,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const putImage = async (record: StoredImage) => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    tx.objectStore(IMAGE_STORE).put(record);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+// Save a picked file and its working copy, returning the stored record
+export const saveImage = async (file: Blob, name: string, settings?: ImageSettings): Promise<StoredImage> => {
+  const { width, height, working, thumbnail } = await createDerivedCopies(file);
+  const record: StoredImage = {
+    id: createId(),
+    name,
+    width,
+    height,
+    original: file,
+    working,
+    thumbnail,
+    settings,
+    createdAt: Date.now(),
+  };
+
+  await putImage(record);
+  requestPersistentStorage();
+  return record;
+};
+
+export const getImage = async (id: string): Promise<StoredImage | undefined> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    return await requestToPromise<StoredImage | undefined>(tx.objectStore(IMAGE_STORE).get(id));
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+// All stored images, oldest first
+export const listImages = async (): Promise<StoredImage[]> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    const records = await requestToPromise<StoredImage[]>(tx.objectStore(IMAGE_STORE).getAll());
+    return records.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+// Apply a partial update to a stored image; missing images are ignored
+const updateImage = async (id: string, changes: Partial<Pick<StoredImage, 'name' | 'settings' | 'processed'>>) => {
+  const record = await getImage(id);
+  if (!record) return;
+  await putImage({ ...record, ...changes });
+};
+
+export const updateImageSettings = (id: string, settings: ImageSettings) => updateImage(id, { settings });
+
+export const renameImage = (id: string, name: string) => updateImage(id, { name });
+
+export const saveProcessedImage = (id: string, blob: Blob, options: LineArtOptions) =>
+  updateImage(id, { processed: { blob, options, createdAt: Date.now() } });
+
+export const clearProcessedImage = (id: string) => updateImage(id, { processed: undefined });
+
+export const deleteImage = async (id: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    tx.objectStore(IMAGE_STORE).delete(id);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+let legacyMigration: Promise<string | null> | null = null;
+
+// Move an image left in localStorage by an older build into IndexedDB.
+// Returns the new image id, or null when there was nothing to migrate.
+export const migrateLegacyImage = (): Promise<string | null> => {
+  // Mount effects can run twice in development; share one migration
+  if (!legacyMigration) {
+    legacyMigration = runLegacyMigration().finally(() => {
+      legacyMigration = null;
+    });
+  }
+  return legacyMigration;
+};
+
+const runLegacyMigration = async (): Promise<string | null> => {
+  const dataUrl = localStorage.getItem(LEGACY_IMAGE_KEY);
+  if (!dataUrl) return null;
+
+  if (!dataUrl.startsWith('data:image/')) {
+    localStorage.removeItem(LEGACY_IMAGE_KEY);
+    return null;
+  }
+
+  let record: StoredImage;
+  try {
+    const blob = await (await fetch(dataUrl)).blob();
+    record = await saveImage(blob, 'Reference');
+  } catch (err) {
+    // A corrupt copy would fail again on every launch: give up on it. Storage
+    // errors (e.g. quota) keep it for the next try.
+    if (err instanceof ImageStoreError && err.reason !== 'decode') throw err;
+    console.error('Dropping unreadable legacy image', err);
+    localStorage.removeItem(LEGACY_IMAGE_KEY);
+    return null;
+  }
+  // Only drop the legacy copy once the image is safely in IndexedDB
+  localStorage.removeItem(LEGACY_IMAGE_KEY);
+  return record.id;
+};
+
+export const saveSnapshot = async (
+  blob: Blob,
+  width: number,
+  height: number,
+  variant: SnapshotVariant,
+): Promise<Snapshot> => {
+  let thumbnail: Blob = blob;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      thumbnail = (await renderScaled(bitmap, THUMBNAIL_MAX_DIMENSION, 'image/jpeg')) ?? blob;
+    } finally {
+      bitmap.close();
+    }
+  } catch (err) {
+    // The full image still works as its own preview
+    console.error('Failed to create snapshot thumbnail', err);
+  }
+
+  const record: Snapshot = { id: createId(), variant, width, height, blob, thumbnail, createdAt: Date.now() };
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).put(record);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+  requestPersistentStorage();
+  return record;
+};
+
+// All snapshots, newest first
+export const listSnapshots = async (): Promise<Snapshot[]> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const records = await requestToPromise<Snapshot[]>(tx.objectStore(SNAPSHOT_STORE).getAll());
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).delete(id);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+export const saveRecording = async (recording: Omit<Recording, 'id' | 'createdAt'>): Promise<Recording> => {
+  const record: Recording = { ...recording, id: createId(), createdAt: Date.now() };
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RECORDING_STORE, 'readwrite');
+    tx.objectStore(RECORDING_STORE).put(record);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+  requestPersistentStorage();
+  return record;
+};
+
+// All recordings, newest first
+export const listRecordings = async (): Promise<Recording[]> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RECORDING_STORE, 'readonly');
+    const records = await requestToPromise<Recording[]>(tx.objectStore(RECORDING_STORE).getAll());
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(RECORDING_STORE, 'readwrite');
+    tx.objectStore(RECORDING_STORE).delete(id);
+    await transactionDone(tx);
+  } catch (err) {
+    throw toStoreError(err);
+  }
+};
@@ -0,0 +1,97 @@
+// Overlay layer stack. Layers are kept bottom-to-top, so array order is z-order.
+import { DEFAULT_ADJUSTMENTS, parseAdjustments, type ImageAdjustments } from './adjustments';
+import { createIdentityTransform, sanitizeTransform, type Transform } from './transform';
+
+export interface OverlayLayer {
+  id: string;
+  // Reference image in the IndexedDB image store
+  imageId: string;
+  name: string;
+  transform: Transform;
+  opacity: number;
+  visible: boolean;
+  // Locked layers ignore move gestures
+  locked: boolean;
+  // Show the image's processed line art instead of the original
+  showProcessed: boolean;
+  // Contrast, tint, blend mode etc., also remembered on the image
+  adjustments: ImageAdjustments;
+}
+
+export const DEFAULT_LAYER_OPACITY = 0.5;
+// Lowest opacity the sliders allow; anything fainter is as good as invisible
+export const MIN_LAYER_OPACITY = 0.1;
+
+// Saved opacity within the slider range, or the default when it isn't a number
+export const clampLayerOpacity = (opacity: unknown) =>
+  typeof opacity === 'number' && Number.isFinite(opacity)
+    ? Math.max(MIN_LAYER_OPACITY, Math.min(1, opacity))
+    : DEFAULT_LAYER_OPACITY;
+
+const createLayerId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createLayer = (
+  imageId: string,
+  name: string,
+  transform: Transform = createIdentityTransform(),
+  opacity: number = DEFAULT_LAYER_OPACITY,
+  adjustments: ImageAdjustments = DEFAULT_ADJUSTMENTS,
+): OverlayLayer => ({
+  id: createLayerId(),
+  imageId,
+  name,
+  transform,
+  opacity,
+  visible: true,
+  locked: false,
+  showProcessed: false,
+  adjustments,
+});
+
+// Move a layer one step up (towards the top) or down the stack
+export const moveLayer = (layers: OverlayLayer[], id: string, direction: 1 | -1): OverlayLayer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+  const next = [...layers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Box an image of the given size occupies when fitted (contain) and centred in
+// the stage; layer transforms are applied around the centre of this box
+export const fitLayerBox = (stageWidth: number, stageHeight: number, imageWidth: number, imageHeight: number) => {
+  if (!stageWidth || !stageHeight || !imageWidth || !imageHeight) {
+    return { left: 0, top: 0, width: stageWidth, height: stageHeight };
+  }
+  const ratio = Math.min(stageWidth / imageWidth, stageHeight / imageHeight);
+  const width = imageWidth * ratio;
+  const height = imageHeight * ratio;
+  return { left: (stageWidth - width) / 2, top: (stageHeight - height) / 2, width, height };
+};
+
+// Validate a saved layer stack, dropping entries that don't refer to an image
+// and repairing broken transforms and opacities. Returns null when the value
+// isn't a list at all.
+export const parseLayers = (value: unknown): OverlayLayer[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter((item): item is Record<string, unknown> =>
+      item && typeof item === 'object' &&
+      typeof item.id === 'string' &&
+      typeof item.imageId === 'string')
+    .map(layer => ({
+      id: layer.id as string,
+      imageId: layer.imageId as string,
+      transform: sanitizeTransform(layer.transform),
+      name: typeof layer.name === 'string' ? layer.name : 'Layer',
+      opacity: clampLayerOpacity(layer.opacity),
+      visible: layer.visible !== false,
+      locked: layer.locked === true,
+      showProcessed: layer.showProcessed === true,
+      adjustments: parseAdjustments(layer.adjustments),
+    }));
+};
@@ -0,0 +1,59 @@
+// Turns a reference photo into trace-friendly line art. The pixel work runs in
+// a Web Worker on an OffscreenCanvas so the camera preview stays smooth.
+
+export type LineArtMode = 'sobel' | 'canny' | 'threshold' | 'posterize';
+
+export interface LineArtOptions {
+  mode: LineArtMode;
+  // 0..1, higher picks up fainter detail
+  sensitivity: number;
+  // Line width in pixels of the processed image (1..6)
+  thickness: number;
+}
+
+export const LINE_ART_MODES: { mode: LineArtMode; label: string }[] = [
+  { mode: 'canny', label: 'Canny' },
+  { mode: 'sobel', label: 'Sobel' },
+  { mode: 'threshold', label: 'Threshold' },
+  { mode: 'posterize', label: 'Posterize' },
+];
+
+export const DEFAULT_LINE_ART_OPTIONS: LineArtOptions = {
+  mode: 'canny',
+  sensitivity: 0.5,
+  thickness: 2,
+};
+
+export interface LineArtRequest {
+  bitmap: ImageBitmap;
+  options: LineArtOptions;
+}
+
+export type LineArtResponse = { blob: Blob } | { error: string };
+
+// Run the line art pipeline on an image, resolving with a PNG
+export const processLineArt = async (image: Blob, options: LineArtOptions): Promise<Blob> => {
+  if (typeof OffscreenCanvas === 'undefined' || typeof Worker === 'undefined') {
+    throw new Error('Line art needs a browser with OffscreenCanvas support');
+  }
+
+  const bitmap = await createImageBitmap(image);
+  const worker = new Worker(new URL('../workers/lineArt.worker.ts', import.meta.url), { type: 'module' });
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<LineArtResponse>) => {
+        if ('blob' in event.data) {
+          resolve(event.data.blob);
+        } else {
+          reject(new Error(event.data.error));
+        }
+      };
+      worker.onerror = (event) => reject(new Error(event.message || 'Line art worker failed'));
+      const request: LineArtRequest = { bitmap, options };
+      worker.postMessage(request, [bitmap]);
+    });
+  } finally {
+    worker.terminate();
+  }
+};
@@ -0,0 +1,239 @@
+// Pure pixel filters behind the line art worker. Everything works on a
+// single-channel Float32Array (0..255) of width*height pixels.
+import type { LineArtOptions } from './lineArt';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toGrayscale = (data: Uint8ClampedArray, width: number, height: number) => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    // Treat transparent areas as white paper
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+};
+
+// Separable 5-tap Gaussian ([1, 4, 6, 4, 1] / 16) to knock down sensor noise
+const GAUSSIAN_KERNEL = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+const blur = (src: Float32Array, width: number, height: number) => {
+  const tmp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += src[y * width + clamp(x + k, 0, width - 1)] * GAUSSIAN_KERNEL[k + 2];
+      }
+      tmp[y * width + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        sum += tmp[clamp(y + k, 0, height - 1) * width + x] * GAUSSIAN_KERNEL[k + 2];
+      }
+      out[y * width + x] = sum;
+    }
+  }
+  return out;
+};
+
+// Gradient magnitude and direction (radians) using the 3x3 Sobel operator
+const sobel = (gray: Float32Array, width: number, height: number) => {
+  const magnitude = new Float32Array(gray.length);
+  const direction = new Float32Array(gray.length);
+  let max = 0;
+  const at = (x: number, y: number) => gray[clamp(y, 0, height - 1) * width + clamp(x, 0, width - 1)];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        -at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1) +
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1);
+      const gy =
+        -at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1) +
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1);
+      const i = y * width + x;
+      magnitude[i] = Math.hypot(gx, gy);
+      direction[i] = Math.atan2(gy, gx);
+      if (magnitude[i] > max) max = magnitude[i];
+    }
+  }
+  return { magnitude, direction, max };
+};
+
+// Thin edges to one pixel by keeping only local maxima along the gradient
+const nonMaxSuppression = (magnitude: Float32Array, direction: Float32Array, width: number, height: number) => {
+  const out = new Float32Array(magnitude.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      // Quantise the gradient direction to 0, 45, 90 or 135 degrees
+      const angle = ((direction[i] * 180 / Math.PI) + 180) % 180;
+      let dx = 1;
+      let dy = 0;
+      if (angle >= 22.5 && angle < 67.5) {
+        dx = 1; dy = 1;
+      } else if (angle >= 67.5 && angle < 112.5) {
+        dx = 0; dy = 1;
+      } else if (angle >= 112.5 && angle < 157.5) {
+        dx = -1; dy = 1;
+      }
+      const m = magnitude[i];
+      if (m >= magnitude[i + dy * width + dx] && m >= magnitude[i - dy * width - dx]) {
+        out[i] = m;
+      }
+    }
+  }
+  return out;
+};
+
+// Keep strong edges plus weak edges connected to them (8-connected)
+const hysteresis = (magnitude: Float32Array, width: number, height: number, low: number, high: number) => {
+  const mask = new Uint8Array(magnitude.length);
+  const stack: number[] = [];
+  for (let i = 0; i < magnitude.length; i++) {
+    if (magnitude[i] >= high) {
+      mask[i] = 1;
+      stack.push(i);
+    }
+  }
+  while (stack.length) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+      for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+        const n = ny * width + nx;
+        if (!mask[n] && magnitude[n] >= low) {
+          mask[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+  return mask;
+};
+
+// Dark where a pixel is darker than its neighbourhood mean by more than offset
+const adaptiveThreshold = (gray: Float32Array, width: number, height: number, radius: number, offset: number) => {
+  // Summed-area table so each window mean is O(1)
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const mask = new Uint8Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y1 * stride + x1] - integral[y0 * stride + x1] -
+        integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      if (gray[y * width + x] < mean - offset) {
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+  return mask;
+};
+
+// Grow lines to the requested pixel width (separable square dilation)
+const dilate = (mask: Uint8Array, width: number, height: number, lineWidth: number) => {
+  const before = Math.floor((lineWidth - 1) / 2);
+  const after = Math.ceil((lineWidth - 1) / 2);
+  if (before + after <= 0) return mask;
+
+  const tmp = new Uint8Array(mask.length);
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let k = Math.max(0, x - after); k <= Math.min(width - 1, x + before); k++) {
+        tmp[y * width + k] = 1;
+      }
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!tmp[y * width + x]) continue;
+      for (let k = Math.max(0, y - after); k <= Math.min(height - 1, y + before); k++) {
+        out[k * width + x] = 1;
+      }
+    }
+  }
+  return out;
+};
+
+// Black lines on a transparent background, so the camera shows through
+const maskToImageData = (mask: Uint8Array, width: number, height: number) => {
+  const out = new ImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) out.data[i * 4 + 3] = 255;
+  }
+  return out;
+};
+
+const posterize = (gray: Float32Array, width: number, height: number, levels: number) => {
+  const out = new ImageData(width, height);
+  const step = 255 / (levels - 1);
+  for (let i = 0; i < gray.length; i++) {
+    const value = Math.round(gray[i] / step) * step;
+    out.data[i * 4] = value;
+    out.data[i * 4 + 1] = value;
+    out.data[i * 4 + 2] = value;
+    out.data[i * 4 + 3] = 255;
+  }
+  return out;
+};
+
+export const renderLineArt = (source: ImageData, options: LineArtOptions): ImageData => {
+  const { width, height } = source;
+  const sensitivity = clamp(options.sensitivity, 0, 1);
+  const lineWidth = Math.round(clamp(options.thickness, 1, 6));
+  const gray = blur(toGrayscale(source.data, width, height), width, height);
+
+  switch (options.mode) {
+    case 'posterize':
+      // Sensitivity picks the number of tones (2..8); thickness does not apply
+      return posterize(gray, width, height, 2 + Math.round(sensitivity * 6));
+
+    case 'threshold': {
+      const radius = Math.max(4, Math.round(Math.min(width, height) / 64));
+      const offset = 4 + (1 - sensitivity) * 20;
+      return maskToImageData(dilate(adaptiveThreshold(gray, width, height, radius, offset), width, height, lineWidth), width, height);
+    }
+
+    case 'sobel': {
+      const { magnitude, max } = sobel(gray, width, height);
+      const threshold = max * (0.45 - 0.4 * sensitivity);
+      const mask = new Uint8Array(magnitude.length);
+      for (let i = 0; i < magnitude.length; i++) {
+        if (magnitude[i] >= threshold) mask[i] = 1;
+      }
+      return maskToImageData(dilate(mask, width, height, lineWidth), width, height);
+    }
+
+    case 'canny':
+    default: {
+      const { magnitude, direction, max } = sobel(gray, width, height);
+      const thin = nonMaxSuppression(magnitude, direction, width, height);
+      const high = max * (0.35 - 0.3 * sensitivity);
+      const mask = hysteresis(thin, width, height, high * 0.4, high);
+      return maskToImageData(dilate(mask, width, height, lineWidth), width, height);
+    }
+  }
+};
@@ -0,0 +1,253 @@
+// Pure marker detection behind the markers worker. Dark blobs are found with
+// an adaptive threshold, each blob's outline is reduced to four corners, and
+// the 6x6 grid inside is sampled through that quad and matched against the
+// marker codes in all four rotations (and mirrored, for front cameras).
+
+import { MARKER_CELLS, MARKER_CODES, markerBit } from './markers';
+import { projectPoint, type Point, type Quad } from './perspective';
+
+export interface DetectedMarker {
+  id: number;
+  // The marker's own top-left, top-right, bottom-right and bottom-left corners
+  corners: Quad;
+}
+
+// Side of the adaptive threshold window as a share of the frame width
+const THRESHOLD_WINDOW = 1 / 24;
+// How much darker than its surroundings a pixel must be to count as ink
+const THRESHOLD_OFFSET = 8;
+// Smallest marker side worth decoding, in frame pixels
+const MIN_MARKER_SIZE = 14;
+// Bits allowed to be misread; the codes are at least 6 apart
+const MAX_BIT_ERRORS = 2;
+// Shortest over longest side; flatter than this is not a marker seen on paper
+const MIN_SIDE_RATIO = 0.3;
+
+const toGray = (image: ImageData) => {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// 1 where a pixel is darker than the mean of the window around it
+const adaptiveThreshold = (gray: Uint8ClampedArray, width: number, height: number) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const radius = Math.max(4, Math.round(width * THRESHOLD_WINDOW));
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      if (gray[y * width + x] < mean - THRESHOLD_OFFSET) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+// Outline pixels of every dark blob big enough to be a marker
+const findBlobOutlines = (mask: Uint8Array, width: number, height: number) => {
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const maxSize = Math.max(width, height) / 2;
+  const outlines: Point[][] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let minX = width;
+    let maxX = 0;
+    let minY = height;
+    let maxY = 0;
+    const outline: Point[] = [];
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      let edge = false;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || !mask[n]) {
+          edge = true;
+        } else if (!visited[n]) {
+          visited[n] = 1;
+          stack[top++] = n;
+        }
+      }
+      if (edge) outline.push({ x, y });
+    }
+
+    const size = Math.max(maxX - minX, maxY - minY);
+    // Blobs touching the frame edge may be cut off
+    const clipped = minX === 0 || minY === 0 || maxX === width - 1 || maxY === height - 1;
+    if (size >= MIN_MARKER_SIZE && size <= maxSize && !clipped) outlines.push(outline);
+  }
+  return outlines;
+};
+
+const distanceSquared = (a: Point, b: Point) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+// Four corners of a roughly quadrilateral outline, in clockwise order on
+// screen: the two points farthest apart make one diagonal, the points
+// farthest from it on either side the other
+const outlineToQuad = (outline: Point[]): Quad | null => {
+  const centre = {
+    x: outline.reduce((sum, p) => sum + p.x, 0) / outline.length,
+    y: outline.reduce((sum, p) => sum + p.y, 0) / outline.length,
+  };
+  const farthest = (from: Point) => outline.reduce((best, p) =>
+    distanceSquared(p, from) > distanceSquared(best, from) ? p : best);
+  const a = farthest(centre);
+  const c = farthest(a);
+
+  let b: Point | null = null;
+  let d: Point | null = null;
+  let maxLeft = 0;
+  let maxRight = 0;
+  for (const p of outline) {
+    const cross = (c.x - a.x) * (p.y - a.y) - (c.y - a.y) * (p.x - a.x);
+    if (cross > maxRight) {
+      maxRight = cross;
+      b = p;
+    } else if (-cross > maxLeft) {
+      maxLeft = -cross;
+      d = p;
+    }
+  }
+  if (!b || !d) return null;
+
+  // Outline pixels sit half a pixel inside the ink's edge
+  const grow = (p: Point) => {
+    const dx = p.x - centre.x;
+    const dy = p.y - centre.y;
+    const length = Math.hypot(dx, dy) || 1;
+    return { x: p.x + 0.5 + dx / length * 0.7, y: p.y + 0.5 + dy / length * 0.7 };
+  };
+  // a → d → c → b runs clockwise with y pointing down
+  return [grow(a), grow(d), grow(c), grow(b)];
+};
+
+const isPlausibleQuad = (quad: Quad) => {
+  const sides = quad.map((p, i) => Math.sqrt(distanceSquared(p, quad[(i + 1) % 4])));
+  return Math.min(...sides) >= MIN_MARKER_SIZE * 0.7 && Math.min(...sides) / Math.max(...sides) >= MIN_SIDE_RATIO;
+};
+
+// Mean brightness in the middle of every cell of the grid spanned by the quad
+const sampleCells = (gray: Uint8ClampedArray, width: number, height: number, quad: Quad) => {
+  const cells = new Float32Array(MARKER_CELLS * MARKER_CELLS);
+  const offsets = [-0.2, 0, 0.2];
+  for (let row = 0; row < MARKER_CELLS; row++) {
+    for (let column = 0; column < MARKER_CELLS; column++) {
+      let sum = 0;
+      for (const dv of offsets) {
+        for (const du of offsets) {
+          const p = projectPoint(quad, (column + 0.5 + du) / MARKER_CELLS, (row + 0.5 + dv) / MARKER_CELLS);
+          const x = Math.min(width - 1, Math.max(0, Math.round(p.x)));
+          const y = Math.min(height - 1, Math.max(0, Math.round(p.y)));
+          sum += gray[y * width + x];
+        }
+      }
+      cells[row * MARKER_CELLS + column] = sum / (offsets.length * offsets.length);
+    }
+  }
+  return cells;
+};
+
+// Marker id read through this quad (corner 0 as the marker's top-left), or -1
+const decode = (cells: Float32Array) => {
+  let min = Infinity;
+  let max = -Infinity;
+  cells.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  // No contrast: plain dark blob
+  if (max - min < 30) return -1;
+  const threshold = (min + max) / 2;
+  const black = (row: number, column: number) => cells[row * MARKER_CELLS + column] < threshold;
+
+  for (let i = 0; i < MARKER_CELLS; i++) {
+    if (!black(0, i) || !black(MARKER_CELLS - 1, i) || !black(i, 0) || !black(i, MARKER_CELLS - 1)) return -1;
+  }
+
+  let bestId = -1;
+  let bestErrors = MAX_BIT_ERRORS + 1;
+  MARKER_CODES.forEach((code, id) => {
+    let errors = 0;
+    for (let row = 0; row < MARKER_CELLS - 2; row++) {
+      for (let column = 0; column < MARKER_CELLS - 2; column++) {
+        if (markerBit(code, row, column) !== (black(row + 1, column + 1) ? 1 : 0)) errors++;
+      }
+    }
+    if (errors < bestErrors) {
+      bestErrors = errors;
+      bestId = id;
+    }
+  });
+  return bestId;
+};
+
+// Try every corner as the top-left, then the same again mirrored (the
+// clockwise order reversed) for a front camera
+const decodeQuad = (gray: Uint8ClampedArray, width: number, height: number, quad: Quad): DetectedMarker | null => {
+  const mirrored: Quad = [quad[0], quad[3], quad[2], quad[1]];
+  for (const base of [quad, mirrored]) {
+    for (let turn = 0; turn < 4; turn++) {
+      const corners = [0, 1, 2, 3].map(i => base[(i + turn) % 4]) as Quad;
+      const id = decode(sampleCells(gray, width, height, corners));
+      if (id >= 0) return { id, corners };
+    }
+  }
+  return null;
+};
+
+export const detectMarkers = (image: ImageData): DetectedMarker[] => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  const mask = adaptiveThreshold(gray, width, height);
+  const found = new Map<number, DetectedMarker>();
+
+  for (const outline of findBlobOutlines(mask, width, height)) {
+    const quad = outlineToQuad(outline);
+    if (!quad || !isPlausibleQuad(quad)) continue;
+
+    const marker = decodeQuad(gray, width, height, quad);
+    if (marker && !found.has(marker.id)) found.set(marker.id, marker);
+  }
+  return [...found.values()];
+};
+
+// Corners of the paper area (top-left, top-right, bottom-right, bottom-left),
+// each the outer corner of its marker, once all four markers are in view
+export const paperQuad = (markers: DetectedMarker[]): Quad | null => {
+  const corners = [0, 1, 2, 3].map(id => markers.find(marker => marker.id === id)?.corners[id]);
+  return corners.every(Boolean) ? corners as Quad : null;
+};
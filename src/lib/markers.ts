@@ -0,0 +1,192 @@
+// Printable corner markers. A sheet has one square marker in each corner
+// (ArUco-style: a black border around a 4x4 grid of bits); the app finds them
+// in the camera frames in a Web Worker and fits the selected layer onto the
+// paper between them, position, scale, rotation and perspective included.
+
+import { coverScale } from './measure';
+import { projectPoint, type Point, type Quad } from './perspective';
+import { clampScale, screenDeltaToLocal, type Transform } from './transform';
+
+// Bits of the top-left, top-right, bottom-right and bottom-left markers,
+// row by row from the top-left cell, 1 is black. Chosen so every code differs
+// from every other (and from its own rotations) in at least 6 bits.
+export const MARKER_CODES = [0xceda, 0x6aaa, 0x9d8a, 0x89bc];
+// Cells per side: the 4x4 bits plus a one-cell black border
+export const MARKER_CELLS = 6;
+const DATA_CELLS = 4;
+
+export const markerBit = (code: number, row: number, column: number) =>
+  (code >> (DATA_CELLS * DATA_CELLS - 1 - (row * DATA_CELLS + column))) & 1;
+
+// Width of the frames searched for markers; big enough to read 3 cm markers
+// on a sheet filling about half the view
+export const MARKER_FRAME_WIDTH = 480;
+// Time between searched frames
+export const MARKER_INTERVAL_MS = 250;
+// Paper corner movement (stage pixels) below which the layer is not refitted
+export const MARKER_FIT_TOLERANCE = 1.5;
+
+export type PaperSize = 'a4' | 'letter';
+
+// Sheet sizes in millimetres
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+};
+
+export const parsePaperSize = (value: unknown): PaperSize =>
+  typeof value === 'string' && value in PAPER_SIZES ? value as PaperSize : 'a4';
+
+const MARKER_SIZE_MM = 30;
+// Distance from the sheet edge, clear of most printers' unprintable border
+const MARKER_MARGIN_MM = 12;
+
+// Paper area spanned by the markers' outer corners, in millimetres
+export const markerArea = (paper: PaperSize) => ({
+  width: PAPER_SIZES[paper].width - 2 * MARKER_MARGIN_MM,
+  height: PAPER_SIZES[paper].height - 2 * MARKER_MARGIN_MM,
+});
+
+export interface MarkerRequest {
+  bitmap: ImageBitmap;
+}
+
+export type MarkerResponse =
+  // Outer corners of the four markers (top-left, top-right, bottom-right,
+  // bottom-left of the paper) in frame pixels, once all four are in view
+  | { found: number; quad: Quad | null; width: number; height: number }
+  | { error: string };
+
+// SVG of the marker sheet, sized in millimetres so it prints true to size
+export const createMarkerSheet = (paper: PaperSize): Blob => {
+  const { label, width, height } = PAPER_SIZES[paper];
+  const cell = MARKER_SIZE_MM / MARKER_CELLS;
+  const origins = [
+    { x: MARKER_MARGIN_MM, y: MARKER_MARGIN_MM },
+    { x: width - MARKER_MARGIN_MM - MARKER_SIZE_MM, y: MARKER_MARGIN_MM },
+    { x: width - MARKER_MARGIN_MM - MARKER_SIZE_MM, y: height - MARKER_MARGIN_MM - MARKER_SIZE_MM },
+    { x: MARKER_MARGIN_MM, y: height - MARKER_MARGIN_MM - MARKER_SIZE_MM },
+  ];
+
+  const markers = MARKER_CODES.map((code, index) => {
+    const { x, y } = origins[index];
+    const cells: string[] = [];
+    for (let row = 0; row < MARKER_CELLS; row++) {
+      for (let column = 0; column < MARKER_CELLS; column++) {
+        const border = row === 0 || column === 0 || row === MARKER_CELLS - 1 || column === MARKER_CELLS - 1;
+        if (border || markerBit(code, row - 1, column - 1)) {
+          cells.push(`<rect x="${x + column * cell}" y="${y + row * cell}" width="${cell}" height="${cell}"/>`);
+        }
+      }
+    }
+    return cells.join('');
+  }).join('');
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    // Cells overlap a hair so no white seams show between them
+    `<g fill="#000" stroke="#000" stroke-width="0.05">${markers}</g>`,
+    `<text x="${width / 2}" y="${MARKER_MARGIN_MM + MARKER_SIZE_MM / 2}" font-family="sans-serif" font-size="3.5" fill="#999" text-anchor="middle">`,
+    `TraceCam markers · ${label} · print at 100% (actual size)</text>`,
+    '</svg>',
+  ].join('');
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+// A point of a marker frame in stage pixels. The frame is the video scaled
+// to cover the stage and centred in it.
+export const framePointToStage = (
+  point: Point,
+  frameWidth: number,
+  stageWidth: number,
+  stageHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+): Point => {
+  const cover = coverScale(stageWidth, stageHeight, videoWidth, videoHeight);
+  const pixelScale = cover * videoWidth / frameWidth;
+  return {
+    x: (stageWidth - videoWidth * cover) / 2 + point.x * pixelScale,
+    y: (stageHeight - videoHeight * cover) / 2 + point.y * pixelScale,
+  };
+};
+
+// Where the image's corners belong: the image fitted (contain) and centred in
+// the marker area, mapped through the paper's perspective
+const imageQuadOnPaper = (paperQuad: Quad, paper: PaperSize, imageWidth: number, imageHeight: number): Quad => {
+  const area = markerArea(paper);
+  const ratio = Math.min(area.width / imageWidth, area.height / imageHeight);
+  const u = (1 - imageWidth * ratio / area.width) / 2;
+  const v = (1 - imageHeight * ratio / area.height) / 2;
+  return [
+    projectPoint(paperQuad, u, v),
+    projectPoint(paperQuad, 1 - u, v),
+    projectPoint(paperQuad, 1 - u, 1 - v),
+    projectPoint(paperQuad, u, 1 - v),
+  ];
+};
+
+// Layer transform that puts the image onto the paper (stage pixels) inside
+// the layer box. Position, scale and rotation come from the best similarity;
+// the corner pins take up the perspective. The layer's flips are kept. The
+// scale stays within the usual limits (the pins make up the difference), and
+// a degenerate paper quad gives null rather than a transform that can't render.
+export const fitTransformToPaper = (
+  paperQuad: Quad,
+  paper: PaperSize,
+  box: { left: number; top: number; width: number; height: number },
+  imageWidth: number,
+  imageHeight: number,
+  current: Transform,
+): Transform | null => {
+  const targets = imageQuadOnPaper(paperQuad, paper, imageWidth, imageHeight);
+  const centre = { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+  const target = {
+    x: targets.reduce((sum, point) => sum + point.x, 0) / 4,
+    y: targets.reduce((sum, point) => sum + point.y, 0) / 4,
+  };
+
+  // Least-squares rotation and scale taking the box corners onto the targets
+  const boxCorners: Point[] = [
+    { x: -box.width / 2, y: -box.height / 2 },
+    { x: box.width / 2, y: -box.height / 2 },
+    { x: box.width / 2, y: box.height / 2 },
+    { x: -box.width / 2, y: box.height / 2 },
+  ];
+  let a = 0;
+  let b = 0;
+  let norm = 0;
+  boxCorners.forEach((p, index) => {
+    const qx = targets[index].x - target.x;
+    const qy = targets[index].y - target.y;
+    a += p.x * qx + p.y * qy;
+    b += p.x * qy - p.y * qx;
+    norm += p.x * p.x + p.y * p.y;
+  });
+
+  const transform: Transform = {
+    ...current,
+    x: target.x - centre.x,
+    y: target.y - centre.y,
+    scale: clampScale(Math.hypot(a, b) / norm),
+    rotation: Math.atan2(b, a) * 180 / Math.PI,
+  };
+
+  // A flipped layer shows its corners mirrored, so image corner i has to land
+  // on the mirrored target
+  const order = [0, 1, 2, 3]
+    .map(index => (transform.flipX ? [1, 0, 3, 2][index] : index))
+    .map(index => (transform.flipY ? [3, 2, 1, 0][index] : index));
+  const corners = order.map(index => {
+    const local = screenDeltaToLocal(
+      targets[index].x - target.x,
+      targets[index].y - target.y,
+      [{ ...transform, x: 0, y: 0 }],
+    );
+    return { x: (box.width / 2 + local.x) / box.width, y: (box.height / 2 + local.y) / box.height };
+  }) as Quad;
+
+  const values = [transform.x, transform.y, transform.scale, transform.rotation, ...corners.flatMap(point => [point.x, point.y])];
+  return values.every(Number.isFinite) ? { ...transform, corners } : null;
+};
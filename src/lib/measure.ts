@@ -0,0 +1,90 @@
+// Real-world scale. Calibration measures a known length in the camera view and
+// keeps the result in camera frame pixels, which don't change when the camera
+// view is panned or zoomed on screen or the bars are hidden. It stays valid
+// until the phone moves relative to the paper.
+
+export type LengthUnit = 'cm' | 'in';
+
+export const LENGTH_UNITS: LengthUnit[] = ['cm', 'in'];
+
+const CM_PER_UNIT: Record<LengthUnit, number> = { cm: 1, in: 2.54 };
+
+export interface Calibration {
+  // Camera frame pixels per centimetre on the paper
+  pixelsPerCm: number;
+  // Frame width it was measured at, so a resolution change scales it
+  frameWidth: number;
+}
+
+export interface MeasureSettings {
+  calibration: Calibration | null;
+  unit: LengthUnit;
+  showScaleBar: boolean;
+}
+
+export const DEFAULT_MEASURE_SETTINGS: MeasureSettings = {
+  calibration: null,
+  unit: 'cm',
+  showScaleBar: false,
+};
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Validate saved measure settings, dropping a calibration that can't be right
+export const parseMeasureSettings = (value: unknown): MeasureSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_MEASURE_SETTINGS;
+  const parsed = value as Record<string, unknown>;
+  const calibration = parsed.calibration as Record<string, unknown> | null | undefined;
+  return {
+    calibration: calibration && isPositive(calibration.pixelsPerCm) && isPositive(calibration.frameWidth)
+      ? { pixelsPerCm: calibration.pixelsPerCm, frameWidth: calibration.frameWidth }
+      : null,
+    unit: LENGTH_UNITS.includes(parsed.unit as LengthUnit) ? parsed.unit as LengthUnit : DEFAULT_MEASURE_SETTINGS.unit,
+    showScaleBar: parsed.showScaleBar === true,
+  };
+};
+
+export const toCm = (length: number, unit: LengthUnit) => length * CM_PER_UNIT[unit];
+
+export const fromCm = (cm: number, unit: LengthUnit) => cm / CM_PER_UNIT[unit];
+
+// Calibration from a distance in frame pixels and the real length it spans
+export const createCalibration = (framePixels: number, length: number, unit: LengthUnit, frameWidth: number): Calibration => ({
+  pixelsPerCm: framePixels / toCm(length, unit),
+  frameWidth,
+});
+
+// Scale of the video frame inside the stage (object-fit: cover)
+export const coverScale = (stageWidth: number, stageHeight: number, videoWidth: number, videoHeight: number) =>
+  Math.max(stageWidth / videoWidth, stageHeight / videoHeight);
+
+// Stage pixels (inside the camera transform, where layers live) per centimetre,
+// or null when uncalibrated or the camera isn't ready
+export const stagePixelsPerCm = (
+  calibration: Calibration | null,
+  stageWidth: number,
+  stageHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+) => {
+  if (!calibration || !stageWidth || !stageHeight || !videoWidth || !videoHeight) return null;
+  const framePixelsPerCm = calibration.pixelsPerCm * videoWidth / calibration.frameWidth;
+  return framePixelsPerCm * coverScale(stageWidth, stageHeight, videoWidth, videoHeight);
+};
+
+// Two decimals at most, no trailing zeros
+export const formatLength = (length: number, unit: LengthUnit) =>
+  `${Number(length.toFixed(2))} ${unit}`;
+
+// Round lengths the scale bar can show, per unit
+const SCALE_BAR_LENGTHS: Record<LengthUnit, number[]> = {
+  cm: [1, 2, 5, 10, 20, 50, 100],
+  in: [0.5, 1, 2, 4, 6, 12, 24, 36],
+};
+
+// Longest round length whose bar fits in maxPixels (the shortest if none does)
+export const scaleBarLength = (unit: LengthUnit, pixelsPerUnit: number, maxPixels: number) => {
+  const lengths = SCALE_BAR_LENGTHS[unit];
+  return [...lengths].reverse().find(length => length * pixelsPerUnit <= maxPixels) ?? lengths[0];
+};
@@ -0,0 +1,80 @@
+// Four-corner perspective (keystone) warp for overlay layers.
+// Corners are stored normalised to the layer box (0..1) so they survive
+// screen rotation and window resizes.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export const createDefaultQuad = (): Quad => [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export const isQuad = (value: unknown): value is Quad =>
+  Array.isArray(value) &&
+  value.length === 4 &&
+  value.every(point =>
+    point && typeof point === 'object' &&
+    Number.isFinite(point.x) && Number.isFinite(point.y));
+
+// Projective map from the unit square onto the quad, as the coefficients of
+// X = (a*u + b*v + c) / (g*u + h*v + 1), Y = (d*u + e*v + f) / (g*u + h*v + 1)
+// (Heckbert, "Fundamentals of Texture Mapping", square-to-quad case)
+export const squareToQuad = (quad: Quad) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0;
+  let h = 0;
+  const det = dx1 * dy2 - dx2 * dy1;
+  if ((dx3 !== 0 || dy3 !== 0) && det !== 0) {
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+
+  return {
+    a: p1.x - p0.x + g * p1.x,
+    b: p3.x - p0.x + h * p3.x,
+    c: p0.x,
+    d: p1.y - p0.y + g * p1.y,
+    e: p3.y - p0.y + h * p3.y,
+    f: p0.y,
+    g,
+    h,
+  };
+};
+
+// Map a point in the unit square through the quad's projective transform
+export const projectPoint = (quad: Quad, u: number, v: number): Point => {
+  const { a, b, c, d, e, f, g, h } = squareToQuad(quad);
+  const w = g * u + h * v + 1;
+  return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+};
+
+// CSS matrix3d that warps a width×height box (transform-origin 0 0) so its
+// corners land on the normalised quad
+export const toCssMatrix3d = (quad: Quad, width: number, height: number) => {
+  if (width <= 0 || height <= 0) return 'none';
+  const pixelQuad = quad.map(point => ({ x: point.x * width, y: point.y * height })) as Quad;
+  const { a, b, c, d, e, f, g, h } = squareToQuad(pixelQuad);
+  // Fold the px -> unit square step (u = x / width, v = y / height) into the matrix
+  const values = [
+    a / width, d / width, 0, g / width,
+    b / height, e / height, 0, h / height,
+    0, 0, 1, 0,
+    c, f, 0, 1,
+  ];
+  return `matrix3d(${values.join(', ')})`;
+};
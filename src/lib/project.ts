@@ -0,0 +1,251 @@
+// TraceCam project files: one JSON document holding the reference images of
+// the layer stack (as data URLs) together with the alignment and settings, so
+// a session can be backed up or moved to another device. The camera device,
+// snapshots, time-lapses and the undo history stay behind.
+// Files are validated completely before anything is imported.
+
+import { parseAdjustments } from './adjustments';
+import { parseCameraPreferences, type CameraPreferences } from './camera';
+import { parseGridSettings, type GridSettings } from './grid';
+import type { ImageSettings, StoredImage } from './imageStore';
+import { clampLayerOpacity, parseLayers, type OverlayLayer } from './layers';
+import { LINE_ART_MODES, type LineArtOptions } from './lineArt';
+import { parsePaperSize, type PaperSize } from './markers';
+import { parseMeasureSettings, type MeasureSettings } from './measure';
+import { sanitizeTransform, type Transform } from './transform';
+
+export const PROJECT_FORMAT = 'tracecam-project';
+// Bump when the layout changes and teach parseProjectFile to read the old one
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = 'tracecam';
+export const PROJECT_MIME_TYPE = 'application/json';
+
+// Anything larger is not something we wrote (and would stall the parser)
+const MAX_PROJECT_BYTES = 200 * 1024 * 1024;
+
+// Settings that travel with a project. The camera device is left out: ids
+// differ between devices.
+export interface ProjectSettings {
+  rotationSnap: boolean;
+  grid: GridSettings;
+  camera: Pick<CameraPreferences, 'resolution' | 'frameRate'>;
+  // Scale calibration and the marker sheet size; missing from files exported
+  // before they were added, which leave the current ones as they are
+  measure?: MeasureSettings;
+  markerPaper?: PaperSize;
+}
+
+export interface ProjectState {
+  layers: OverlayLayer[];
+  selectedLayerId: string;
+  cameraTransform: Transform;
+  settings: ProjectSettings;
+}
+
+interface ProjectImageEntry {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  createdAt: number;
+  // data: URL of the original file
+  data: string;
+  settings?: ImageSettings;
+  processed?: {
+    data: string;
+    options: LineArtOptions;
+    createdAt: number;
+  };
+}
+
+interface ProjectFile extends ProjectState {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: number;
+  images: ProjectImageEntry[];
+}
+
+// An image read from a project, ready to be saved to the image store
+export interface ProjectImage {
+  // Id in the file; layers refer to images by it
+  id: string;
+  name: string;
+  original: Blob;
+  settings?: ImageSettings;
+  processed?: { blob: Blob; options: LineArtOptions };
+}
+
+export interface ProjectImport extends ProjectState {
+  images: ProjectImage[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Bundle the layer stack's images and the current state into a project file
+export const createProjectFile = async (images: StoredImage[], state: ProjectState): Promise<Blob> => {
+  const usedIds = new Set(state.layers.map(layer => layer.imageId));
+  const entries = await Promise.all(images
+    .filter(image => usedIds.has(image.id))
+    .map(async (image): Promise<ProjectImageEntry> => ({
+      id: image.id,
+      name: image.name,
+      width: image.width,
+      height: image.height,
+      createdAt: image.createdAt,
+      data: await blobToDataUrl(image.original),
+      settings: image.settings,
+      processed: image.processed && {
+        data: await blobToDataUrl(image.processed.blob),
+        options: image.processed.options,
+        createdAt: image.processed.createdAt,
+      },
+    })));
+
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    exportedAt: Date.now(),
+    ...state,
+    images: entries,
+  };
+  return new Blob([JSON.stringify(project)], { type: PROJECT_MIME_TYPE });
+};
+
+export const projectFileName = (exportedAt: number) => {
+  const date = new Date(exportedAt);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `tracecam-project-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}.${PROJECT_EXTENSION}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTransformLike = (value: unknown) =>
+  isRecord(value) && [value.x, value.y, value.scale].every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Turn an embedded data URL back into a Blob, making sure it really is an image
+const decodeImage = async (data: unknown, what: string): Promise<Blob> => {
+  if (typeof data !== 'string' || !data.startsWith('data:image/')) {
+    throw new ProjectFileError(`${what} is missing or is not an image`);
+  }
+  try {
+    const blob = await (await fetch(data)).blob();
+    const bitmap = await createImageBitmap(blob);
+    bitmap.close();
+    return blob;
+  } catch {
+    throw new ProjectFileError(`${what} could not be read`);
+  }
+};
+
+const parseImageSettings = (value: unknown): ImageSettings | undefined => {
+  if (!isRecord(value) || !isTransformLike(value.imagePosition) || !isTransformLike(value.cameraTransform)) {
+    return undefined;
+  }
+  return {
+    imagePosition: sanitizeTransform(value.imagePosition),
+    cameraTransform: sanitizeTransform(value.cameraTransform),
+    overlayOpacity: clampLayerOpacity(value.overlayOpacity),
+    adjustments: value.adjustments === undefined ? undefined : parseAdjustments(value.adjustments),
+  };
+};
+
+const parseLineArtOptions = (value: unknown): LineArtOptions | null => {
+  if (!isRecord(value)) return null;
+  const { mode, sensitivity, thickness } = value;
+  if (!LINE_ART_MODES.some(item => item.mode === mode) || typeof sensitivity !== 'number' || typeof thickness !== 'number') {
+    return null;
+  }
+  return { mode: mode as LineArtOptions['mode'], sensitivity, thickness };
+};
+
+const parseImageEntry = async (value: unknown, index: number): Promise<ProjectImage> => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new ProjectFileError(`Image ${index + 1} is damaged`);
+  }
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name : `Reference ${index + 1}`;
+  const original = await decodeImage(value.data, `"${name}"`);
+
+  let processed: ProjectImage['processed'];
+  if (value.processed !== undefined) {
+    const options = isRecord(value.processed) ? parseLineArtOptions(value.processed.options) : null;
+    if (!options || !isRecord(value.processed)) {
+      throw new ProjectFileError(`The line art of "${name}" is damaged`);
+    }
+    processed = { blob: await decodeImage(value.processed.data, `The line art of "${name}"`), options };
+  }
+
+  return { id: value.id, name, original, settings: parseImageSettings(value.settings), processed };
+};
+
+// Read and validate a project file. Throws ProjectFileError describing the
+// first problem found; nothing is returned unless the whole file is usable.
+export const parseProjectFile = async (file: Blob): Promise<ProjectImport> => {
+  if (file.size > MAX_PROJECT_BYTES) {
+    throw new ProjectFileError('This file is too large to be a TraceCam project');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new ProjectFileError('This is not a TraceCam project file');
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not a TraceCam project file');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_VERSION) {
+    throw new ProjectFileError('This project was saved by a newer version of TraceCam');
+  }
+  if (!Array.isArray(raw.images) || !Array.isArray(raw.layers) || !isTransformLike(raw.cameraTransform)) {
+    throw new ProjectFileError('This project file is damaged');
+  }
+
+  const layers = parseLayers(raw.layers);
+  if (!layers || layers.length !== raw.layers.length) {
+    throw new ProjectFileError('The layers in this project are damaged');
+  }
+
+  // Decode one image at a time to keep memory down on phones
+  const images: ProjectImage[] = [];
+  for (const [index, entry] of raw.images.entries()) {
+    images.push(await parseImageEntry(entry, index));
+  }
+  const imageIds = new Set(images.map(image => image.id));
+  if (imageIds.size !== images.length || layers.some(layer => !imageIds.has(layer.imageId))) {
+    throw new ProjectFileError('This project refers to images it does not contain');
+  }
+
+  const settings = isRecord(raw.settings) ? raw.settings : {};
+  const camera = parseCameraPreferences(settings.camera);
+  const selectedLayerId = typeof raw.selectedLayerId === 'string' && layers.some(layer => layer.id === raw.selectedLayerId)
+    ? raw.selectedLayerId
+    : layers[layers.length - 1]?.id ?? '';
+
+  return {
+    images,
+    layers,
+    selectedLayerId,
+    cameraTransform: sanitizeTransform(raw.cameraTransform),
+    settings: {
+      rotationSnap: settings.rotationSnap !== false,
+      grid: parseGridSettings(settings.grid),
+      camera: { resolution: camera.resolution, frameRate: camera.frameRate },
+      measure: settings.measure === undefined ? undefined : parseMeasureSettings(settings.measure),
+      markerPaper: settings.markerPaper === undefined ? undefined : parsePaperSize(settings.markerPaper),
+    },
+  };
+};
@@ -0,0 +1,176 @@
+// Everything TraceCam keeps in localStorage, as one versioned document.
+// Loading validates every field and repairs what it can (falling back to
+// defaults), and documents written by older builds are brought up to date by
+// one migration per version. Images are not in here; see imageStore.
+
+import { parseCameraPreferences, type CameraPreferences } from './camera';
+import { parseGridSettings, type GridSettings } from './grid';
+import { parseHistory, type EditHistory } from './history';
+import { clampLayerOpacity, createLayer, parseLayers, type OverlayLayer } from './layers';
+import { parsePaperSize, type PaperSize } from './markers';
+import { parseMeasureSettings, type MeasureSettings } from './measure';
+import { sanitizeTransform, type Transform } from './transform';
+
+const STORAGE_KEY = 'tracecam_settings';
+export const SETTINGS_VERSION = 1;
+
+// Layer image id standing in for the image an early build kept in
+// localStorage itself; the layer restore swaps in the migrated image's id
+export const LEGACY_IMAGE_PLACEHOLDER = 'legacy-image';
+
+export interface Settings {
+  version: number;
+  privacyAccepted: boolean;
+  // The user closed the in-app install prompt
+  installPromptDismissed: boolean;
+  cameraTransform: Transform;
+  // Snap pinch rotation to right angles
+  rotationSnap: boolean;
+  grid: GridSettings;
+  camera: CameraPreferences;
+  // Real-world scale calibration and the scale bar
+  measure: MeasureSettings;
+  // Sheet size the corner markers are printed on
+  markerPaper: PaperSize;
+  // Bottom to top
+  layers: OverlayLayer[];
+  selectedLayerId: string;
+  history: EditHistory;
+}
+
+type SettingsDocument = Record<string, unknown>;
+
+// Loose keys written before the settings document existed (version 0)
+const LEGACY_KEYS = {
+  privacyAccepted: 'tracecam_privacy_accepted',
+  cameraTransform: 'tracecam_camera_transform',
+  rotationSnap: 'tracecam_rotation_snap',
+  grid: 'tracecam_grid',
+  camera: 'tracecam_camera',
+  layers: 'tracecam_layers',
+  selectedLayerId: 'tracecam_selected_layer',
+  history: 'tracecam_history',
+  // From before layers: one overlay image with its own transform and opacity
+  overlayImageId: 'tracecam_overlay_image_id',
+  imageTransform: 'tracecam_image_transform',
+  overlayOpacity: 'tracecam_overlay_opacity',
+};
+// Image data URL from the earliest builds, moved to IndexedDB by migrateLegacyImage
+const LEGACY_IMAGE_DATA_KEY = 'tracecam_overlay_image';
+
+const readLegacyJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Failed to parse ${key} from localStorage`, e);
+    return undefined;
+  }
+};
+
+// The single overlay of pre-layer builds, as a layer
+const legacySingleLayer = (): OverlayLayer[] => {
+  const imageId = localStorage.getItem(LEGACY_KEYS.overlayImageId)
+    ?? (localStorage.getItem(LEGACY_IMAGE_DATA_KEY) ? LEGACY_IMAGE_PLACEHOLDER : null);
+  if (!imageId) return [];
+  // Name is filled in from the image when the layers are restored
+  return [createLayer(
+    imageId,
+    '',
+    sanitizeTransform(readLegacyJson(LEGACY_KEYS.imageTransform)),
+    clampLayerOpacity(parseFloat(localStorage.getItem(LEGACY_KEYS.overlayOpacity) ?? '')),
+  )];
+};
+
+// Migrations by the version they upgrade from; each returns the next version
+const MIGRATIONS: Record<number, (stored: SettingsDocument) => SettingsDocument> = {
+  // 0 → 1: gather the loose tracecam_* keys into one document
+  0: () => ({
+    version: 1,
+    privacyAccepted: localStorage.getItem(LEGACY_KEYS.privacyAccepted) === 'true',
+    cameraTransform: readLegacyJson(LEGACY_KEYS.cameraTransform),
+    rotationSnap: localStorage.getItem(LEGACY_KEYS.rotationSnap) !== 'false',
+    grid: readLegacyJson(LEGACY_KEYS.grid),
+    camera: readLegacyJson(LEGACY_KEYS.camera),
+    layers: readLegacyJson(LEGACY_KEYS.layers) ?? legacySingleLayer(),
+    selectedLayerId: localStorage.getItem(LEGACY_KEYS.selectedLayerId) ?? '',
+    history: readLegacyJson(LEGACY_KEYS.history),
+  }),
+};
+
+const readDocument = (): SettingsDocument => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return { version: 0 };
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as SettingsDocument;
+    }
+  } catch (e) {
+    console.error('Failed to parse settings from localStorage', e);
+  }
+  // Unreadable: start over rather than guess
+  return { version: SETTINGS_VERSION };
+};
+
+const migrate = (stored: SettingsDocument): SettingsDocument => {
+  let current = stored;
+  let version = typeof current.version === 'number' ? current.version : 0;
+  while (version < SETTINGS_VERSION && MIGRATIONS[version]) {
+    current = MIGRATIONS[version](current);
+    version = current.version as number;
+  }
+  return current;
+};
+
+// Check every field, keeping valid values and repairing or replacing the rest
+const validate = (stored: SettingsDocument): Settings => {
+  const layers = parseLayers(stored.layers) ?? [];
+  return {
+    version: SETTINGS_VERSION,
+    privacyAccepted: stored.privacyAccepted === true,
+    installPromptDismissed: stored.installPromptDismissed === true,
+    cameraTransform: sanitizeTransform(stored.cameraTransform),
+    rotationSnap: stored.rotationSnap !== false,
+    grid: parseGridSettings(stored.grid),
+    camera: parseCameraPreferences(stored.camera),
+    measure: parseMeasureSettings(stored.measure),
+    markerPaper: parsePaperSize(stored.markerPaper),
+    layers,
+    selectedLayerId: typeof stored.selectedLayerId === 'string' ? stored.selectedLayerId : '',
+    history: parseHistory(stored.history),
+  };
+};
+
+const write = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    return true;
+  } catch (err) {
+    console.error('Failed to save settings', err);
+    return false;
+  }
+};
+
+let cached: Settings | null = null;
+
+// Current settings, read (and migrated) from localStorage on first use
+export const loadSettings = (): Settings => {
+  if (cached) return cached;
+
+  const stored = readDocument();
+  const fromLegacyKeys = stored.version === 0;
+  cached = validate(migrate(stored));
+  // Store the repaired document; only drop the old keys once it is safely written
+  if (write(cached) && fromLegacyKeys) {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+  return cached;
+};
+
+// Change some settings and save the document
+export const saveSettings = (changes: Partial<Omit<Settings, 'version'>>) => {
+  cached = { ...loadSettings(), ...changes };
+  write(cached);
+};
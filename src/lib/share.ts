@@ -0,0 +1,34 @@
+// Getting captures off the device: a plain download, or the Web Share API
+// (share sheet on phones) where the browser supports sharing files.
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canShareFile = (file: File) =>
+  typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] });
+
+export const shareFile = async (file: File, title: string) => {
+  try {
+    await navigator.share({ files: [file], title });
+  } catch (err) {
+    // Closing the share sheet rejects with AbortError; nothing to report
+    if (!(err instanceof DOMException && err.name === 'AbortError')) {
+      console.error('Share failed', err);
+    }
+  }
+};
+
+// tracecam-20250101-093000.jpg style names from a capture time
+export const captureFileName = (createdAt: number, extension: string) => {
+  const date = new Date(createdAt);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `tracecam-${stamp}.${extension}`;
+};
@@ -0,0 +1,80 @@
+// Keyboard shortcuts for desktop use. Keys are matched on KeyboardEvent.key,
+// so they follow the keyboard layout; browser shortcuts (Ctrl, Cmd, Alt) are
+// left alone apart from undo/redo, which useEditHistory handles.
+
+// Screen pixels per arrow key press, and with Shift held
+export const NUDGE_STEP = 1;
+export const LARGE_NUDGE_STEP = 10;
+// Scale change per +/- press
+export const ZOOM_STEP = 1.05;
+export const OPACITY_STEP = 0.1;
+
+export type ShortcutAction =
+  | { type: 'nudge'; dx: number; dy: number }
+  | { type: 'zoom'; factor: number }
+  | { type: 'opacity'; delta: number }
+  | { type: 'hide' }
+  | { type: 'pictureMove' }
+  | { type: 'cameraMove' }
+  | { type: 'reset' }
+  | { type: 'help' };
+
+// What the help overlay lists, in order
+export const SHORTCUT_HELP: { keys: string[]; description: string }[] = [
+  { keys: ['P'], description: 'Move the picture (selected layer)' },
+  { keys: ['C'], description: 'Move the camera view' },
+  { keys: ['←', '↑', '→', '↓'], description: `Nudge ${NUDGE_STEP} px (Shift: ${LARGE_NUDGE_STEP} px)` },
+  { keys: ['+', '−'], description: 'Scale up / down' },
+  { keys: ['Wheel'], description: 'Zoom around the cursor (trackpad pinch too)' },
+  { keys: ['R'], description: 'Reset what you are moving' },
+  { keys: ['[', ']'], description: 'Picture opacity down / up' },
+  { keys: ['H'], description: 'Hide the controls (long-press the eye to unlock)' },
+  { keys: ['Ctrl', 'Z'], description: 'Undo (Shift or Ctrl+Y to redo)' },
+  { keys: ['?'], description: 'Show or close this list' },
+];
+
+// Typing in a field (e.g. renaming a reference) takes the keys
+export const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    element.isContentEditable
+    || element.tagName === 'TEXTAREA'
+    || element.tagName === 'SELECT'
+    || (element.tagName === 'INPUT' && (element as HTMLInputElement).type !== 'range')
+  );
+};
+
+const keyToAction = (e: KeyboardEvent): ShortcutAction | null => {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  const step = e.shiftKey ? LARGE_NUDGE_STEP : NUDGE_STEP;
+  switch (e.key) {
+    case 'ArrowLeft': return { type: 'nudge', dx: -step, dy: 0 };
+    case 'ArrowRight': return { type: 'nudge', dx: step, dy: 0 };
+    case 'ArrowUp': return { type: 'nudge', dx: 0, dy: -step };
+    case 'ArrowDown': return { type: 'nudge', dx: 0, dy: step };
+    case '+':
+    case '=': return { type: 'zoom', factor: ZOOM_STEP };
+    case '-':
+    case '_': return { type: 'zoom', factor: 1 / ZOOM_STEP };
+    case '[': return { type: 'opacity', delta: -OPACITY_STEP };
+    case ']': return { type: 'opacity', delta: OPACITY_STEP };
+    case 'h':
+    case 'H': return { type: 'hide' };
+    case 'p':
+    case 'P': return { type: 'pictureMove' };
+    case 'c':
+    case 'C': return { type: 'cameraMove' };
+    case 'r':
+    case 'R': return { type: 'reset' };
+    case '?': return { type: 'help' };
+    default: return null;
+  }
+};
+
+// Holding these down repeats them; the rest are toggles that fire once per press
+const REPEATING_ACTIONS: ShortcutAction['type'][] = ['nudge', 'zoom', 'opacity'];
+
+export const matchShortcut = (e: KeyboardEvent): ShortcutAction | null => {
+  const action = keyToAction(e);
+  return action && e.repeat && !REPEATING_ACTIONS.includes(action.type) ? null : action;
+};
@@ -0,0 +1,102 @@
+// Motion tracking ("pin to paper"): a Web Worker follows corner features of
+// the paper between small video frames and reports how the paper moved since
+// tracking started, as a similarity (shift, rotation and uniform scale). The
+// layers are moved by the same amount so they stay on the paper after a bump.
+
+import { coverScale } from './measure';
+import { normalizeAngle, type Transform } from './transform';
+
+// Width of the frames the tracker works on; small keeps it fast on phones
+export const TRACKING_FRAME_WIDTH = 192;
+// Time between tracked frames
+export const TRACKING_INTERVAL_MS = 100;
+// Least time between settings writes while tracking keeps moving the layers
+export const TRACKED_SAVE_INTERVAL_MS = 1000;
+
+// p' = scale · R(rotation) · p + (x, y), rotation in degrees (clockwise on screen)
+export interface Similarity {
+  scale: number;
+  rotation: number;
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_SIMILARITY: Similarity = { scale: 1, rotation: 0, x: 0, y: 0 };
+
+export interface TrackingRequest {
+  bitmap: ImageBitmap;
+  // Start over from this frame: the paper is where it should be right now
+  anchor: boolean;
+}
+
+export type TrackingResponse =
+  // Paper motion since the anchor frame, in tracking frame pixels. reset is
+  // set when the worker started over from this frame (new anchor, or the
+  // frame size changed), so earlier motion no longer applies.
+  | { status: 'tracking'; motion: Similarity; reset: boolean; width: number; height: number }
+  | { status: 'lost' }
+  | { error: string };
+
+const rotate = (x: number, y: number, degrees: number) => {
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+export const applySimilarity = (m: Similarity, x: number, y: number) => {
+  const rotated = rotate(x, y, m.rotation);
+  return { x: m.scale * rotated.x + m.x, y: m.scale * rotated.y + m.y };
+};
+
+// a after b
+export const composeSimilarity = (a: Similarity, b: Similarity): Similarity => {
+  const t = applySimilarity(a, b.x, b.y);
+  return { scale: a.scale * b.scale, rotation: normalizeAngle(a.rotation + b.rotation), x: t.x, y: t.y };
+};
+
+export const invertSimilarity = (m: Similarity): Similarity => {
+  const t = rotate(-m.x / m.scale, -m.y / m.scale, -m.rotation);
+  return { scale: 1 / m.scale, rotation: normalizeAngle(-m.rotation), x: t.x, y: t.y };
+};
+
+// Too small to see: not worth a re-render (or a settings write)
+export const isNegligibleMotion = (m: Similarity) =>
+  Math.abs(m.x) < 0.1 && Math.abs(m.y) < 0.1 && Math.abs(m.rotation) < 0.05 && Math.abs(m.scale - 1) < 0.0005;
+
+// The same motion in stage pixels, where the layers live. The frame is the
+// video scaled to cover the stage and centred in it.
+export const frameMotionToStage = (
+  m: Similarity,
+  frameWidth: number,
+  stageWidth: number,
+  stageHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+): Similarity => {
+  const cover = coverScale(stageWidth, stageHeight, videoWidth, videoHeight);
+  const pixelScale = cover * videoWidth / frameWidth;
+  const offsetX = (stageWidth - videoWidth * cover) / 2;
+  const offsetY = (stageHeight - videoHeight * cover) / 2;
+  // Stage point P = offset + pixelScale · p, so P' = sR·P + offset − sR·offset + pixelScale · t
+  const movedOffset = applySimilarity({ ...m, x: 0, y: 0 }, offsetX, offsetY);
+  return {
+    scale: m.scale,
+    rotation: m.rotation,
+    x: offsetX - movedOffset.x + pixelScale * m.x,
+    y: offsetY - movedOffset.y + pixelScale * m.y,
+  };
+};
+
+// Move a layer transform (applied around centreX/centreY, the middle of its
+// box) by a stage motion
+export const moveTransformBy = (t: Transform, m: Similarity, centreX: number, centreY: number): Transform => {
+  const centre = applySimilarity(m, centreX + t.x, centreY + t.y);
+  return {
+    ...t,
+    x: centre.x - centreX,
+    y: centre.y - centreY,
+    scale: t.scale * m.scale,
+    rotation: normalizeAngle(t.rotation + m.rotation),
+  };
+};
@@ -0,0 +1,132 @@
+import { isQuad, type Quad } from './perspective';
+
+// Shared transform shape for the overlay image and the camera view.
+// x/y are in viewport pixels, scale is a plain multiplier and rotation is in
+// degrees (clockwise, around the element centre). Flips mirror the element in
+// its own frame, after rotation and scale, so drags and pinches on a flipped
+// element still follow the fingers.
+export interface Transform {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+  // Mirror left-right / top-bottom
+  flipX: boolean;
+  flipY: boolean;
+  // Four-corner perspective pins (overlay layers only); undefined means no warp
+  corners?: Quad;
+}
+
+export const createIdentityTransform = (): Transform => ({ x: 0, y: 0, scale: 1, rotation: 0, flipX: false, flipY: false });
+
+// Fill in fields missing from transforms saved by older builds
+export const normalizeTransform = (value: Partial<Transform>): Transform => {
+  const { corners, ...rest } = { ...createIdentityTransform(), ...value };
+  return isQuad(corners) ? { ...rest, corners } : rest;
+};
+
+// CSS transform string; translate first so drags stay in screen space
+export const toCssTransform = (t: Transform) =>
+  `translate(${t.x}px, ${t.y}px) rotate(${t.rotation}deg) scale(${t.flipX ? -t.scale : t.scale}, ${t.flipY ? -t.scale : t.scale})`;
+
+// Same transform on a 2D canvas, around the given origin (the CSS transform-origin)
+export const applyCanvasTransform = (ctx: CanvasRenderingContext2D, t: Transform, originX: number, originY: number) => {
+  ctx.translate(originX + t.x, originY + t.y);
+  ctx.rotate(t.rotation * Math.PI / 180);
+  ctx.scale(t.flipX ? -t.scale : t.scale, t.flipY ? -t.scale : t.scale);
+  ctx.translate(-originX, -originY);
+};
+
+// Wrap an angle into the range (-180, 180]
+export const normalizeAngle = (degrees: number) => {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+// Zoom range for pinch gestures on the camera and the overlay
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 3;
+
+export const clampScale = (scale: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+// Scale at which a width×height box, turned by rotation degrees, just fits
+// inside (contain) or just covers (cover) an area, within the zoom range
+export const fitScale = (
+  width: number,
+  height: number,
+  rotation: number,
+  areaWidth: number,
+  areaHeight: number,
+  mode: 'contain' | 'cover',
+) => {
+  if (width <= 0 || height <= 0 || areaWidth <= 0 || areaHeight <= 0) return 1;
+  const radians = rotation * Math.PI / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  if (mode === 'contain') {
+    // The turned box's bounds have to fit in the area
+    return clampScale(Math.min(
+      areaWidth / (width * cos + height * sin),
+      areaHeight / (width * sin + height * cos),
+    ));
+  }
+  // The area, turned the other way, has to fit in the box
+  return clampScale(Math.max(
+    (areaWidth * cos + areaHeight * sin) / width,
+    (areaWidth * sin + areaHeight * cos) / height,
+  ));
+};
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Repair a transform read from storage or a file: anything that isn't a number
+// falls back to the identity, scale is kept in the pinch range and the offset
+// within a screen's reach (more when zoomed), so the element can't load out of sight
+export const sanitizeTransform = (value: unknown): Transform => {
+  const t = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const scale = clampScale(finiteOr(t.scale, 1));
+  const limit = Math.max(window.innerWidth, window.innerHeight) * scale;
+  const clampOffset = (offset: number) => Math.max(-limit, Math.min(limit, offset));
+  return normalizeTransform({
+    x: clampOffset(finiteOr(t.x, 0)),
+    y: clampOffset(finiteOr(t.y, 0)),
+    scale,
+    rotation: normalizeAngle(finiteOr(t.rotation, 0)),
+    flipX: t.flipX === true,
+    flipY: t.flipY === true,
+    corners: t.corners as Quad | undefined,
+  });
+};
+
+// How close (in degrees) a rotation has to be to a right angle before it snaps
+export const ROTATION_SNAP_THRESHOLD = 8;
+
+// Snap to 0/90/180/270° when within the threshold, otherwise leave untouched
+export const snapRotation = (degrees: number, threshold = ROTATION_SNAP_THRESHOLD) => {
+  const nearest = Math.round(degrees / 90) * 90;
+  return Math.abs(degrees - nearest) <= threshold ? normalizeAngle(nearest) : normalizeAngle(degrees);
+};
+
+const rotateVector = (x: number, y: number, degrees: number) => {
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+// Convert a screen-space movement into the local space of an element nested
+// inside the given transforms (outermost first), undoing rotation, scale and flips
+export const screenDeltaToLocal = (dx: number, dy: number, transforms: Transform[]) =>
+  transforms.reduce((delta, t) => {
+    const unrotated = rotateVector(delta.x, delta.y, -t.rotation);
+    return {
+      x: unrotated.x / (t.flipX ? -t.scale : t.scale),
+      y: unrotated.y / (t.flipY ? -t.scale : t.scale),
+    };
+  }, { x: dx, y: dy });
+
+// True when the transforms together mirror the view (an odd number of single-axis
+// flips), which turns clockwise rotations on screen anticlockwise inside them
+export const isMirrored = (transforms: Transform[]) =>
+  transforms.reduce((mirrored, t) => mirrored !== (t.flipX !== t.flipY), false);
@@ -0,0 +1,72 @@
+// TraceCam service worker: precaches the app shell so TraceCam opens without
+// a connection. This file is not bundled; the serviceWorker plugin in
+// vite.config.ts emits it as /sw.js with the build id and the list of built
+// files filled in. A new build therefore changes this file, which is how the
+// browser notices an update.
+
+const BUILD_ID = '__BUILD_ID__';
+const PRECACHE_URLS = ['__PRECACHE_URLS__'];
+const CACHE_PREFIX = 'tracecam-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+
+self.addEventListener('install', (event) => {
+  // No skipWaiting here: a new version waits until the page asks for it, so a
+  // tracing session is never swapped out underneath the user
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+      .map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Web Share Target (see share_target in the manifest): keep the shared image in
+// a cache for the page to pick up, then open the app with ?shared=1
+const SHARE_TARGET_PATH = '/share-target';
+const SHARE_TARGET_CACHE = 'tracecam-share-target';
+
+const receiveShare = async (request) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.getAll('image').find(item => item instanceof File && item.type.startsWith('image/'));
+    if (file) {
+      const cache = await caches.open(SHARE_TARGET_CACHE);
+      await cache.put('/shared-image', new Response(file, {
+        headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+      }));
+    }
+  } catch (err) {
+    console.error('Failed to receive shared image', err);
+  }
+  return Response.redirect('/?shared=1', 303);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  // Single-page app: every navigation gets the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/index.html').then(cached => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
@@ -0,0 +1,24 @@
+// Web Worker: decodes the bitmap on an OffscreenCanvas, runs the filter and
+// posts back a PNG Blob.
+import { renderLineArt } from '../lib/lineArtFilters';
+import type { LineArtRequest, LineArtResponse } from '../lib/lineArt';
+
+const respond = (response: LineArtResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<LineArtRequest>) => {
+  const { bitmap, options } = event.data;
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas is not available in this worker');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    ctx.putImageData(renderLineArt(source, options), 0, 0);
+
+    respond({ blob: await canvas.convertToBlob({ type: 'image/png' }) });
+  } catch (err) {
+    respond({ error: err instanceof Error ? err.message : 'Line art processing failed' });
+  }
+};
@@ -0,0 +1,26 @@
+// Web Worker: looks for the printed corner markers in each video frame and
+// replies with the paper's corners once all four are in view.
+import { detectMarkers, paperQuad } from '../lib/markerDetection';
+import type { MarkerRequest, MarkerResponse } from '../lib/markers';
+
+const respond = (response: MarkerResponse) => self.postMessage(response);
+
+let canvas: OffscreenCanvas | null = null;
+
+self.onmessage = (event: MessageEvent<MarkerRequest>) => {
+  const { bitmap } = event.data;
+  try {
+    if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas is not available in this worker');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const markers = detectMarkers(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    respond({ found: markers.length, quad: paperQuad(markers), width: canvas.width, height: canvas.height });
+  } catch (err) {
+    respond({ error: err instanceof Error ? err.message : 'Marker detection failed' });
+  }
+};
@@ -0,0 +1,38 @@
+// Web Worker: keeps the tracker between frames. Each message is a small video
+// frame; the reply is the paper's motion since the anchor frame.
+import { createTracker, toGrayFrame, trackFrame, type TrackerState } from '../lib/featureTracking';
+import type { TrackingRequest, TrackingResponse } from '../lib/tracking';
+
+const respond = (response: TrackingResponse) => self.postMessage(response);
+
+let tracker: TrackerState | null = null;
+let canvas: OffscreenCanvas | null = null;
+
+self.onmessage = (event: MessageEvent<TrackingRequest>) => {
+  const { bitmap, anchor } = event.data;
+  try {
+    if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas is not available in this worker');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const frame = toGrayFrame(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+    // A new anchor, or the camera changed resolution: start from this frame
+    if (anchor || !tracker || tracker.width !== frame.width || tracker.height !== frame.height) {
+      tracker = createTracker(frame);
+      respond({ status: 'tracking', motion: tracker.motion, reset: true, width: frame.width, height: frame.height });
+      return;
+    }
+
+    const result = trackFrame(tracker, frame);
+    respond(result.status === 'tracking'
+      ? { status: 'tracking', motion: result.motion, reset: false, width: frame.width, height: frame.height }
+      : { status: 'lost' });
+  } catch (err) {
+    respond({ error: err instanceof Error ? err.message : 'Tracking failed' });
+  }
+};
@@ -1,8 +1,31 @@
-import { defineConfig } from 'vite'
+import fs from 'fs'
+import path from 'path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
+// Files from public/ that make up the app shell next to the bundle
+const SHELL_FILES = ['/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png']
+
+// Emit src/sw.js as /sw.js with this build's id and files to precache
+const serviceWorker = (): Plugin => ({
+  name: 'tracecam-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(fileName => !fileName.endsWith('.map') && fileName !== 'index.html')
+    const source = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8')
+      .replace('__BUILD_ID__', Date.now().toString(36))
+      .replace("['__PRECACHE_URLS__']", JSON.stringify([...SHELL_FILES, ...files.map(fileName => `/${fileName}`)]))
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), serviceWorker()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
 })